@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { QuarantinedRecord, ShortenedURL, StorageAdapter, StorageBackend, User, UserStore } from '../src/types';
+import { parseStoredJson, SCHEMA_VERSION, toPersistedStore, upgradeStoredUrls } from '../src/services/persistenceSchema';
+import { reviveUser } from '../src/services/userService';
+
+class JsonFile<T> {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async readText(): Promise<string | null> {
+    try {
+      return await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async read(): Promise<T[]> {
+    const stored = await this.readText();
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  write(value: unknown): Promise<void> {
+    const snapshot = JSON.stringify(value, null, 2);
+
+    // Serialize writes so overlapping saves can't interleave on the temp file
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(() => this.replace(snapshot));
+    return this.pendingWrite;
+  }
+
+  private async replace(snapshot: string) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temp file first so a crash mid-write can't corrupt the store
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, snapshot);
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+export class FileStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'file';
+  private file: JsonFile<ShortenedURL>;
+  private quarantineFile: JsonFile<QuarantinedRecord>;
+  private storedVersion = SCHEMA_VERSION;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+    // Corrupt records are moved next to the data file, e.g. urls.json -> urls.quarantine.json
+    this.quarantineFile = new JsonFile(filePath.replace(/(\.json)?$/, '.quarantine.json'));
+  }
+
+  async load(): Promise<ShortenedURL[]> {
+    const stored = await this.file.readText();
+    if (!stored) return [];
+
+    const { urls, quarantined, report, needsSave } = upgradeStoredUrls(parseStoredJson(stored), this.backend);
+    this.storedVersion = report.fromVersion;
+    if (quarantined.length > 0) {
+      const existing = await this.quarantineFile.read();
+      await this.quarantineFile.write([...existing, ...quarantined]);
+    }
+    if (needsSave) await this.save(urls);
+    return urls;
+  }
+
+  async save(urls: ShortenedURL[]): Promise<void> {
+    return this.file.write(toPersistedStore(urls, this.storedVersion));
+  }
+}
+
+export class FileUserStore implements UserStore {
+  private file: JsonFile<User>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async load(): Promise<User[]> {
+    const users = await this.file.read();
+    return users.map(reviveUser);
+  }
+
+  save(users: User[]): Promise<void> {
+    return this.file.write(users);
+  }
+}
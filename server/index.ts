@@ -0,0 +1,48 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { URLService } from '../src/services/urlService';
+import { UserService } from '../src/services/userService';
+import { logger, readLoggerEnv } from '../src/utils/logger';
+import { configurePolicy, mergePolicySources, readPolicyEnv } from '../src/utils/policy';
+import { FileStorageAdapter, FileUserStore } from './fileStorageAdapter';
+import { createRequestHandler } from './routes';
+
+const port = Number(process.env.PORT) || 8080;
+const publicUrl = (process.env.PUBLIC_URL || `http://localhost:${port}`).replace(/\/$/, '');
+const dataFile = process.env.DATA_FILE || path.join(__dirname, 'data', 'urls.json');
+const usersFile = process.env.USERS_FILE || path.join(__dirname, 'data', 'users.json');
+
+const policyFile = process.env.POLICY_FILE;
+
+// Without localStorage events are kept in memory; the console is on by default for the server
+logger.configure(readLoggerEnv({ LOG_CONSOLE_LEVEL: 'INFO', ...process.env }));
+
+// Settings from the environment override the policy file
+const policySource = mergePolicySources(
+  policyFile ? JSON.parse(fs.readFileSync(policyFile, 'utf8')) : {},
+  readPolicyEnv(process.env)
+);
+
+// Short links must never redirect back to the shortener itself
+const policy = configurePolicy({
+  ...policySource,
+  urlRules: {
+    ...policySource.urlRules,
+    selfHosts: [...(policySource.urlRules?.selfHosts || []), new URL(publicUrl).host]
+  }
+});
+
+const service = new URLService(new FileStorageAdapter(dataFile), publicUrl);
+const users = new UserService(new FileUserStore(usersFile));
+
+const server = http.createServer(
+  createRequestHandler(service, users, {
+    redirectStatus: process.env.REDIRECT_STATUS === '301' ? 301 : 302,
+    corsOrigin: process.env.CORS_ORIGIN || '*'
+  })
+);
+
+server.listen(port, () => {
+  logger.info('API_SERVER_STARTED', { port, publicUrl, dataFile, policyFile, maxActiveUrls: policy.maxActiveUrls });
+});
@@ -0,0 +1,122 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MemoryStorageAdapter } from '../src/services/storageAdapters';
+import { URLService } from '../src/services/urlService';
+import { MemoryUserStore, UserService } from '../src/services/userService';
+import { createRequestHandler } from './routes';
+
+let service: URLService;
+let server: http.Server;
+let baseUrl = '';
+
+const get = (path: string) => fetch(`${baseUrl}${path}`, { redirect: 'manual' });
+
+const continueFrom = async (page: string) => {
+  const action = /action="([^"]+)"/.exec(page)?.[1] || '';
+  const visitToken = /name="visitToken" value="([^"]*)"/.exec(page)?.[1] || '';
+  return fetch(`${baseUrl}${action.replace(/&amp;/g, '&')}`, {
+    method: 'POST',
+    redirect: 'manual',
+    body: new URLSearchParams({ visitToken, referrer: '' })
+  });
+};
+
+beforeEach(async () => {
+  service = new URLService(new MemoryStorageAdapter(), 'http://localhost');
+  const users = new UserService(new MemoryUserStore());
+  server = http.createServer(createRequestHandler(service, users, { redirectStatus: 302, corsOrigin: '*' }));
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  service.dispose();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('server redirects', () => {
+  it('shows links without redirect options the same 2-second countdown as the app', async () => {
+    await service.shortenUrl('https://example.com/', 'plain', 60);
+
+    const response = await get('/plain');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<span id="countdown">2</span>');
+  });
+
+  it('redirects instant links straight away', async () => {
+    await service.shortenUrl('https://example.com/', 'instant', 60, {
+      redirectOptions: { mode: 'instant', countdownSeconds: 0, stripReferrer: false, showPreview: false }
+    });
+
+    const response = await get('/instant');
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://example.com/');
+    expect(service.getUrlByShortCode('instant')?.clickCount).toBe(1);
+  });
+
+  it('counts an interstitial click only once the visitor continues', async () => {
+    await service.shortenUrl('https://example.com/', 'warn', 60, {
+      maxClicks: 1,
+      redirectOptions: { mode: 'click-through', countdownSeconds: 0, stripReferrer: true, showPreview: true }
+    });
+
+    const page = await (await get('/warn')).text();
+    expect(service.getUrlByShortCode('warn')?.clickCount).toBe(0);
+
+    const response = await continueFrom(page);
+    expect(response.status).toBe(303);
+    expect(response.headers.get('location')).toBe('https://example.com/');
+    expect(response.headers.get('referrer-policy')).toBe('no-referrer');
+    expect(service.resolveShortCode('warn').status).toBe('limit-reached');
+
+    expect((await continueFrom(page)).status).toBe(410);
+  });
+});
+
+describe('visitor-reported clicks', () => {
+  const reportClick = (shortCode: string, visitToken: string) =>
+    fetch(`${baseUrl}/api/codes/${shortCode}/clicks`, { method: 'POST', body: JSON.stringify({ visitToken }) });
+
+  it('tells a spent token apart from a used-up link', async () => {
+    await service.shortenUrl('https://example.com/', 'once', 60, { maxClicks: 1 });
+    const { visitToken } = await (await get('/api/codes/once')).json();
+    const { visitToken: secondToken } = await (await get('/api/codes/once')).json();
+
+    expect((await reportClick('once', visitToken)).status).toBe(201);
+
+    const spent = await reportClick('once', visitToken);
+    expect(spent.status).toBe(403);
+    expect(await spent.json()).toMatchObject({ recorded: false, reason: 'invalid-token' });
+
+    const exhausted = await reportClick('once', secondToken);
+    expect(exhausted.status).toBe(410);
+    expect(await exhausted.json()).toMatchObject({ recorded: false, reason: 'limit-reached' });
+  });
+});
+
+describe('request errors', () => {
+  it('answers bad input with 400 and its reason', async () => {
+    const response = await fetch(`${baseUrl}/api/codes/any/clicks`, { method: 'POST', body: '{not json' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid JSON body' });
+
+    const register = () => fetch(`${baseUrl}/api/auth/register`, {
+      method: 'POST',
+      body: JSON.stringify({ username: 'taken', password: 'correct-horse-battery' })
+    });
+    expect((await register()).status).toBe(201);
+    const duplicate = await register();
+    expect(duplicate.status).toBe(400);
+    expect(await duplicate.json()).toEqual({ error: 'Username is already taken' });
+  });
+
+  it('answers unexpected failures with 500 without exposing them', async () => {
+    jest.spyOn(service, 'lookupShortCode').mockImplementation(() => {
+      throw new Error('storage index out of sync');
+    });
+
+    const response = await get('/api/codes/any');
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Internal server error' });
+  });
+});
@@ -0,0 +1,610 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { DuplicateURLError, URLService } from '../src/services/urlService';
+import { UserService } from '../src/services/userService';
+import { DuplicateHandling, LinkUpdate, PublicUser, QueryPassthroughMode, RedirectOptions, ShortenedURL } from '../src/types';
+import {
+  validateUrl,
+  validateShortCode,
+  validateExpiryMinutes,
+  validateMaxClicks,
+  validateCredentials,
+  validateLinkUpdate,
+  validateTags,
+  validateRedirectOptions,
+  validateStartsAt,
+  validatePrelaunchUrl
+} from '../src/utils/validation';
+import { logger } from '../src/utils/logger';
+import { ValidationError } from '../src/utils/errors';
+import { getPolicy } from '../src/utils/policy';
+import { buildDestinationUrl, extractCampaignParams } from '../src/utils/queryParams';
+import { normalizeTags, parseTagInput } from '../src/utils/tags';
+import { parseAcceptLanguage, resolveRedirect, sanitizeRedirectRules } from '../src/utils/redirectRules';
+import { createVisitorId, getVisitorIdFromCookie, sanitizeSplitVariants, VISITOR_COOKIE } from '../src/utils/splitVariants';
+import { getDestinationPreview, getRedirectOptions, isDefaultRedirectOptions, sanitizeRedirectOptions } from '../src/utils/redirectOptions';
+import { formatCountdown } from '../src/utils/linkStatus';
+
+export interface RouteOptions {
+  redirectStatus: 301 | 302;
+  corsOrigin: string;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const QUERY_PASSTHROUGH_MODES: QueryPassthroughMode[] = ['incoming-wins', 'destination-wins'];
+const DUPLICATE_HANDLING: DuplicateHandling[] = ['offer', 'reuse', 'create'];
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        reject(new ValidationError('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(raw));
+    req.on('error', reject);
+  });
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, any>> => {
+  const raw = await readBody(req);
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    throw new ValidationError('Invalid JSON body');
+  }
+};
+
+// Accept either a JSON array or a comma separated string, like the form field
+const readTags = (value: unknown): string[] =>
+  Array.isArray(value) ? normalizeTags(value.map(String)) : parseTagInput(String(value));
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Password hashes never leave the server, not even to the link's owner
+const redactUrl = (url: ShortenedURL): ShortenedURL =>
+  url.password ? { ...url, password: { ...url.password, salt: '', hash: '' } } : url;
+
+const sendPasswordForm = (res: ServerResponse, status: number, action: string, message = '') => {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(`<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Password required</title></head>
+<body style="font-family: system-ui, sans-serif; max-width: 24rem; margin: 4rem auto;">
+  <h1>Password required</h1>
+  <p>This short URL is password protected.</p>
+  ${message ? `<p style="color: #b91c1c;">${escapeHtml(message)}</p>` : ''}
+  <form method="post" action="${escapeHtml(action)}">
+    <input type="password" name="password" autofocus required>
+    <button type="submit">Continue</button>
+  </form>
+</body>
+</html>`);
+};
+
+// Same choices as the in-app RedirectHandler, for visitors who hit the API server directly
+const sendInterstitial = (
+  res: ServerResponse,
+  destination: string,
+  options: RedirectOptions,
+  headers: Record<string, string>,
+  form: { action: string; visitToken: string; referrer: string }
+) => {
+  const { hostname, isSecure } = getDestinationPreview(destination);
+  const timed = options.mode === 'timed';
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(`<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  ${options.stripReferrer ? '<meta name="referrer" content="no-referrer">' : ''}
+  <title>${timed ? 'Redirecting' : 'Unverified destination'}</title>
+</head>
+<body style="font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto;">
+  <h1>${timed ? 'Redirecting...' : 'Unverified destination'}</h1>
+  <p id="message">${timed
+    ? `You will be redirected in <span id="countdown">${options.countdownSeconds}</span> seconds.`
+    : 'This link leads to a site that has not been verified. Continue only if you trust it.'}</p>
+  ${options.showPreview ? `<p><strong>${escapeHtml(hostname)}</strong>${isSecure ? '' : ' <span style="color: #b91c1c;">(not secure)</span>'}<br>
+  <span style="word-break: break-all; color: #4b5563;">${escapeHtml(destination)}</span></p>` : ''}
+  <form id="continue" method="post" action="${escapeHtml(form.action)}">
+    <input type="hidden" name="visitToken" value="${escapeHtml(form.visitToken)}">
+    <input type="hidden" name="referrer" value="${escapeHtml(form.referrer)}">
+    <button type="submit">Continue to destination</button>
+  </form>
+  ${timed ? `<button type="button" id="cancel">Cancel</button>
+  <script>
+    var left = ${options.countdownSeconds};
+    var timer = setInterval(function () {
+      left -= 1;
+      document.getElementById('countdown').textContent = left;
+      if (left <= 0) {
+        clearInterval(timer);
+        document.getElementById('continue').submit();
+      }
+    }, 1000);
+    document.getElementById('cancel').onclick = function () {
+      clearInterval(timer);
+      document.getElementById('message').textContent = 'Redirect cancelled.';
+      this.disabled = true;
+    };
+  </script>` : ''}
+</body>
+</html>`);
+};
+
+// The page reloads itself at launch time, when the same request starts redirecting
+const sendNotYetAvailable = (res: ServerResponse, startsAt: Date) => {
+  const secondsLeft = Math.max(Math.ceil((startsAt.getTime() - Date.now()) / 1000), 1);
+
+  res.writeHead(503, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store', 'Retry-After': String(secondsLeft) });
+  res.end(`<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Not yet available</title></head>
+<body style="font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto;">
+  <h1>Not yet available</h1>
+  <p>This link goes live on ${escapeHtml(startsAt.toUTCString())}.</p>
+  <p>Time remaining: <span id="countdown">${escapeHtml(formatCountdown(secondsLeft * 1000))}</span></p>
+  <script>
+    var launch = ${startsAt.getTime()};
+    var timer = setInterval(function () {
+      var left = Math.max(Math.ceil((launch - Date.now()) / 1000), 0);
+      var days = Math.floor(left / 86400), hours = Math.floor(left % 86400 / 3600);
+      var minutes = Math.floor(left % 3600 / 60), seconds = left % 60;
+      document.getElementById('countdown').textContent = days > 0
+        ? days + 'd ' + hours + 'h ' + minutes + 'm'
+        : hours > 0 ? hours + 'h ' + minutes + 'm ' + seconds + 's'
+        : minutes > 0 ? minutes + 'm ' + seconds + 's' : seconds + 's';
+      if (left <= 0) {
+        clearInterval(timer);
+        window.location.reload();
+      }
+    }, 1000);
+  </script>
+</body>
+</html>`);
+};
+
+const describeLockout = (retryAfterMs: number): string =>
+  `Too many attempts. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`;
+const headerValue = (value: string | string[] | undefined): string =>
+  Array.isArray(value) ? value[0] || '' : value || '';
+
+// A malformed escape can't name any route or short code
+const decodePathSegments = (pathname: string): string[] | null => {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+};
+
+// The socket address, not X-Forwarded-For, which any client can set to dodge the password lockout
+const clientAddress = (req: IncomingMessage): string => req.socket.remoteAddress || '';
+
+const bearerToken = (req: IncomingMessage): string => {
+  const match = /^Bearer (.+)$/.exec(headerValue(req.headers.authorization));
+  return match ? match[1] : '';
+};
+
+// Shared by the redirect and the interstitial's continue POST, whose own Referer is the interstitial
+const planRedirect = (req: IncomingMessage, url: ShortenedURL, search: string, referrer: string) => {
+  const userAgent = headerValue(req.headers['user-agent']);
+  // Split links need a visitor id to stay sticky; other links never set the cookie
+  const visitorId = url.splitVariants?.length
+    ? getVisitorIdFromCookie(headerValue(req.headers.cookie)) || createVisitorId()
+    : undefined;
+  const { destination, rule, variant } = resolveRedirect(url, {
+    userAgent,
+    referrer,
+    languages: parseAcceptLanguage(headerValue(req.headers['accept-language'])),
+    visitorId
+  });
+
+  const headers: Record<string, string> = {};
+  if (visitorId) {
+    headers['Set-Cookie'] = `${VISITOR_COOKIE}=${visitorId}; Path=/; Max-Age=31536000; HttpOnly; SameSite=Lax`;
+  }
+  // Browsers apply a redirect response's referrer policy to the request that follows it
+  if (getRedirectOptions(url).stripReferrer) {
+    headers['Referrer-Policy'] = 'no-referrer';
+  }
+
+  return {
+    location: buildDestinationUrl(url, search, '', destination),
+    headers,
+    userAgent,
+    details: { campaignParams: extractCampaignParams(search), ruleId: rule?.id, variantId: variant?.id }
+  };
+};
+
+const sendGone = (res: ServerResponse) => {
+  res.writeHead(410, { 'Content-Type': 'text/plain' });
+  res.end('This short URL is no longer available.');
+};
+
+export const createRequestHandler = (service: URLService, users: UserService, options: RouteOptions) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', options.corsOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const { pathname, search } = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      // Inside the try so a failed storage load still gets a response
+      await Promise.all([service.ready, users.ready]);
+      const token = bearerToken(req);
+      const viewer: PublicUser | null = token ? users.getSessionUser(token) : null;
+
+      const segments = decodePathSegments(pathname);
+      if (!segments) {
+        return sendJson(res, 404, { error: 'Not found' });
+      }
+
+      // POST /api/auth/register, POST /api/auth/sign-in, POST /api/auth/sign-out, GET /api/auth/me
+      if (segments[0] === 'api' && segments[1] === 'auth' && segments.length === 3) {
+        if (req.method === 'POST' && (segments[2] === 'register' || segments[2] === 'sign-in')) {
+          const { username = '', password = '' } = await readJsonBody(req);
+
+          if (segments[2] === 'register') {
+            const validation = validateCredentials(String(username), String(password));
+            if (!validation.isValid) {
+              return sendJson(res, 400, { error: validation.errors[0], errors: validation.errors });
+            }
+          }
+
+          const user = segments[2] === 'register'
+            ? await users.register(String(username), String(password))
+            : await users.signIn(String(username), String(password));
+          if (!user) {
+            return sendJson(res, 401, { error: 'Invalid username or password' });
+          }
+          return sendJson(res, segments[2] === 'register' ? 201 : 200, { token: users.createSession(user.id), user });
+        }
+
+        if (req.method === 'POST' && segments[2] === 'sign-out') {
+          users.endSession(token);
+          return sendJson(res, 200, { signedOut: true });
+        }
+
+        if (req.method === 'GET' && segments[2] === 'me') {
+          return viewer ? sendJson(res, 200, viewer) : sendJson(res, 401, { error: 'Sign in required' });
+        }
+      }
+
+      // Link and user management needs a signed-in user; redirects below stay public
+      if (segments[0] === 'api' && (segments[1] === 'urls' || segments[1] === 'users') && !viewer) {
+        return sendJson(res, 401, { error: 'Sign in required' });
+      }
+
+      // GET /api/users, PATCH /api/users/:id (admin only)
+      if (segments[0] === 'api' && segments[1] === 'users' && viewer) {
+        if (viewer.role !== 'admin') {
+          return sendJson(res, 403, { error: 'Only admins can manage users' });
+        }
+
+        if (segments.length === 2 && req.method === 'GET') {
+          return sendJson(res, 200, users.getAllUsers());
+        }
+
+        if (segments.length === 3 && req.method === 'PATCH') {
+          const { role, quota } = await readJsonBody(req);
+          if (!users.getUser(segments[2])) {
+            return sendJson(res, 404, { error: 'User not found' });
+          }
+          return sendJson(res, 200, users.updateUser(segments[2], { role, quota }));
+        }
+      }
+
+      // GET /api/urls, POST /api/urls
+      if (segments[0] === 'api' && segments[1] === 'urls' && segments.length === 2 && viewer) {
+        if (req.method === 'GET') {
+          return sendJson(res, 200, service.getAllUrls(viewer).map(url => redactUrl(url)));
+        }
+
+        if (req.method === 'POST') {
+          const {
+            originalUrl = '',
+            customShortCode,
+            expiryMinutes = getPolicy().defaultExpiryMinutes,
+            password,
+            maxClicks,
+            queryPassthrough,
+            tags,
+            redirectOptions,
+            startsAt,
+            prelaunchUrl,
+            onDuplicate
+          } = await readJsonBody(req);
+          const tagList = tags !== undefined ? readTags(tags) : [];
+          const linkRedirectOptions = redirectOptions ? sanitizeRedirectOptions(redirectOptions) : undefined;
+          const linkStartsAt = startsAt ? new Date(startsAt) : undefined;
+          const urlValidation = validateUrl(String(originalUrl));
+          const errors = [
+            ...urlValidation.errors,
+            ...(customShortCode ? validateShortCode(String(customShortCode)).errors : []),
+            ...validateExpiryMinutes(Number(expiryMinutes)).errors,
+            ...(maxClicks !== undefined ? validateMaxClicks(Number(maxClicks)).errors : []),
+            ...(queryPassthrough && !QUERY_PASSTHROUGH_MODES.includes(queryPassthrough)
+              ? ['Query passthrough must be incoming-wins or destination-wins']
+              : []),
+            ...validateTags(tagList).errors,
+            ...(linkRedirectOptions ? validateRedirectOptions(linkRedirectOptions).errors : []),
+            ...(linkStartsAt ? validateStartsAt(linkStartsAt).errors : []),
+            ...(linkStartsAt && prelaunchUrl ? validatePrelaunchUrl(String(prelaunchUrl)).errors : [])
+          ];
+
+          if (errors.length > 0) {
+            return sendJson(res, 400, { error: errors[0], errors, reasons: urlValidation.reasons });
+          }
+
+          try {
+            const shortenedUrl = await service.shortenUrl(
+              String(originalUrl),
+              customShortCode ? String(customShortCode) : undefined,
+              Number(expiryMinutes),
+              {
+                password: password ? String(password) : undefined,
+                maxClicks: maxClicks !== undefined ? Number(maxClicks) : undefined,
+                queryPassthrough: queryPassthrough || undefined,
+                tags: tagList,
+                redirectOptions: linkRedirectOptions && !isDefaultRedirectOptions(linkRedirectOptions)
+                  ? linkRedirectOptions
+                  : undefined,
+                startsAt: linkStartsAt,
+                prelaunchUrl: prelaunchUrl ? String(prelaunchUrl) : undefined,
+                onDuplicate: DUPLICATE_HANDLING.includes(onDuplicate) ? onDuplicate : undefined
+              },
+              viewer
+            );
+            return sendJson(res, 201, redactUrl(shortenedUrl));
+          } catch (error) {
+            if (error instanceof DuplicateURLError) {
+              return sendJson(res, 409, { error: error.message, duplicate: redactUrl(error.existing) });
+            }
+            throw error;
+          }
+        }
+      }
+
+      // GET/PATCH/DELETE /api/urls/:id, GET /api/urls/:id/clicks, POST /api/urls/:id/rollback
+      if (segments[0] === 'api' && segments[1] === 'urls' && segments.length >= 3 && viewer) {
+        // Links owned by someone else look exactly like missing ones
+        const url = service.getUrlById(segments[2], viewer);
+        if (!url) {
+          return sendJson(res, 404, { error: 'URL not found' });
+        }
+
+        if (segments.length === 3 && req.method === 'GET') {
+          return sendJson(res, 200, redactUrl(url));
+        }
+
+        if (segments.length === 3 && req.method === 'PATCH') {
+          const {
+            originalUrl,
+            shortCode,
+            expiresAt,
+            startsAt,
+            prelaunchUrl,
+            isActive,
+            tags,
+            redirectRules,
+            splitVariants,
+            redirectOptions
+          } = await readJsonBody(req);
+          const update: LinkUpdate = {
+            originalUrl: originalUrl !== undefined ? String(originalUrl) : undefined,
+            shortCode: shortCode !== undefined ? String(shortCode) : undefined,
+            expiresAt: expiresAt !== undefined ? new Date(expiresAt) : undefined,
+            startsAt: startsAt === null ? null : startsAt !== undefined ? new Date(startsAt) : undefined,
+            prelaunchUrl: prelaunchUrl !== undefined ? String(prelaunchUrl || '') : undefined,
+            isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+            tags: tags !== undefined ? readTags(tags) : undefined,
+            redirectRules: redirectRules !== undefined ? sanitizeRedirectRules(redirectRules) : undefined,
+            splitVariants: splitVariants !== undefined ? sanitizeSplitVariants(splitVariants) : undefined,
+            redirectOptions: redirectOptions === null
+              ? null
+              : redirectOptions !== undefined ? sanitizeRedirectOptions(redirectOptions) : undefined
+          };
+
+          const validation = validateLinkUpdate(update);
+          if (!validation.isValid) {
+            return sendJson(res, 400, { error: validation.errors[0], errors: validation.errors, reasons: validation.reasons });
+          }
+          return sendJson(res, 200, redactUrl(service.updateUrl(url.id, update, viewer)));
+        }
+
+        if (segments.length === 4 && segments[3] === 'rollback' && req.method === 'POST') {
+          const { revisionId = '' } = await readJsonBody(req);
+          return sendJson(res, 200, redactUrl(service.rollbackUrl(url.id, String(revisionId), viewer)));
+        }
+
+        if (segments.length === 3 && req.method === 'DELETE') {
+          service.deleteUrl(url.id, viewer);
+          return sendJson(res, 200, { deleted: true });
+        }
+
+        if (segments.length === 4 && segments[3] === 'clicks' && req.method === 'GET') {
+          return sendJson(res, 200, { clickCount: url.clickCount, clicks: url.clicks });
+        }
+      }
+
+      // GET /api/codes/:shortCode, POST /api/codes/:shortCode/unlock, POST /api/codes/:shortCode/clicks
+      if (segments[0] === 'api' && segments[1] === 'codes' && segments.length >= 3) {
+        const shortCode = segments[2];
+
+        if (segments.length === 3 && req.method === 'GET') {
+          // Anyone may ask, so only the public projection is sent; clicks, revisions and owner stay behind sign-in
+          const lookup = service.lookupShortCode(shortCode);
+          if (!lookup.link) {
+            return sendJson(res, 404, { ...lookup, error: 'URL not found' });
+          }
+          return sendJson(res, lookup.status === 'active' || lookup.status === 'scheduled' ? 200 : 410, lookup);
+        }
+
+        if (segments.length === 4 && segments[3] === 'unlock' && req.method === 'POST') {
+          const { password = '' } = await readJsonBody(req);
+          const result = await service.unlockLink(shortCode, String(password), clientAddress(req));
+
+          if (result.success) {
+            return sendJson(res, 200, result);
+          }
+          if (result.retryAfterMs) {
+            res.setHeader('Retry-After', Math.ceil(result.retryAfterMs / 1000));
+            return sendJson(res, 429, { success: false, retryAfterMs: result.retryAfterMs });
+          }
+          return service.getUrlByShortCode(shortCode)
+            ? sendJson(res, 401, { success: false })
+            : sendJson(res, 404, { success: false, error: 'URL not found or expired' });
+        }
+
+        if (segments.length === 4 && segments[3] === 'clicks' && req.method === 'POST') {
+          const { visitToken = '', userAgent = '', referrer = '', campaignParams, ruleId, variantId } = await readJsonBody(req);
+          // Re-filter client-supplied params so only utm_* and ref are ever stored
+          const details = {
+            ...(campaignParams && typeof campaignParams === 'object'
+              ? { campaignParams: extractCampaignParams(new URLSearchParams(campaignParams).toString()) }
+              : {}),
+            ruleId: typeof ruleId === 'string' ? ruleId : undefined,
+            variantId: typeof variantId === 'string' ? variantId : undefined
+          };
+          const result = service.recordVisit(shortCode, String(visitToken), String(userAgent), String(referrer), details);
+          if (result.recorded) {
+            return sendJson(res, 201, result);
+          }
+          return result.reason === 'invalid-token'
+            ? sendJson(res, 403, { ...result, error: 'Visit token is missing, used or expired' })
+            : sendJson(res, result.reason === 'not-found' ? 404 : 410, { ...result, error: 'URL not found or expired' });
+        }
+      }
+
+      // POST /:shortCode/continue - the interstitial's continue button or finished countdown; the click counts here
+      if (segments.length === 2 && segments[0] !== 'api' && segments[1] === 'continue' && req.method === 'POST') {
+        const shortCode = segments[0];
+        const form = new URLSearchParams(await readBody(req));
+        const { status, url } = service.resolveShortCode(shortCode);
+        if (!url || status !== 'active') {
+          return sendGone(res);
+        }
+
+        const referrer = form.get('referrer') || '';
+        const { location, headers, userAgent, details } = planRedirect(req, url, search, referrer);
+        // The token comes from the interstitial, so a cancelled preview never counts as a visit
+        if (!service.recordVisit(shortCode, form.get('visitToken') || '', userAgent, referrer, details).recorded) {
+          return sendGone(res);
+        }
+
+        res.writeHead(303, { Location: location, 'Cache-Control': 'no-store', ...headers });
+        res.end();
+        return;
+      }
+
+      // GET /:shortCode - real server-side redirect; POST /:shortCode submits a link password
+      if (segments.length === 1 && segments[0] !== 'api' && (req.method === 'GET' || req.method === 'POST')) {
+        const shortCode = segments[0];
+        const resolved = service.resolveShortCode(shortCode);
+        let url = resolved.url;
+
+        if (!url) {
+          logger.warn('REDIRECT_NOT_FOUND', { shortCode });
+          res.writeHead(404, { 'Content-Type': 'text/plain' });
+          res.end('The requested short URL does not exist or has been deleted.');
+          return;
+        }
+
+        if (resolved.status === 'scheduled' && url.startsAt) {
+          logger.info('REDIRECT_NOT_YET_LIVE', { shortCode, startsAt: url.startsAt });
+          // Always temporary: a cached 301 would keep sending visitors to the pre-launch page after launch
+          if (url.prelaunchUrl) {
+            res.writeHead(302, { Location: url.prelaunchUrl, 'Cache-Control': 'no-store' });
+            res.end();
+            return;
+          }
+          return sendNotYetAvailable(res, url.startsAt);
+        }
+
+        if (resolved.status !== 'active') {
+          logger.warn(resolved.status === 'limit-reached' ? 'REDIRECT_LIMIT_REACHED' : 'REDIRECT_EXPIRED', { shortCode });
+          res.writeHead(410, { 'Content-Type': 'text/plain' });
+          res.end(resolved.status === 'limit-reached'
+            ? 'This short URL has reached its click limit and is no longer available.'
+            : 'This short URL has expired and is no longer valid.');
+          return;
+        }
+
+        if (url.password) {
+          const formAction = `/${encodeURIComponent(shortCode)}${search}`;
+          if (req.method === 'GET') {
+            return sendPasswordForm(res, 200, formAction);
+          }
+
+          const password = new URLSearchParams(await readBody(req)).get('password') || '';
+          const result = await service.unlockUrl(shortCode, password, clientAddress(req));
+
+          if (result.retryAfterMs) {
+            res.setHeader('Retry-After', Math.ceil(result.retryAfterMs / 1000));
+            return sendPasswordForm(res, 429, formAction, describeLockout(result.retryAfterMs));
+          }
+          if (!result.success || !result.url) {
+            return sendPasswordForm(res, 401, formAction, 'Incorrect password.');
+          }
+          url = result.url;
+        } else if (req.method === 'POST') {
+          return sendJson(res, 405, { error: 'Method not allowed' });
+        }
+
+        const referrer = headerValue(req.headers.referer);
+        const { location, headers, userAgent, details } = planRedirect(req, url, search, referrer);
+
+        // Same fallback as the in-app RedirectHandler, so a link behaves alike whichever side serves it
+        const redirectOptions = getRedirectOptions(url);
+        if (redirectOptions.mode !== 'instant') {
+          return sendInterstitial(res, location, redirectOptions, headers, {
+            action: `/${encodeURIComponent(shortCode)}/continue${search}`,
+            visitToken: service.issueVisitToken(shortCode),
+            referrer
+          });
+        }
+
+        // A capped link can run out between the lookup and the click
+        if (!service.recordClick(shortCode, userAgent, referrer, details)) {
+          return sendGone(res);
+        }
+
+        // 303 turns the password form POST into a GET on the destination
+        res.writeHead(req.method === 'POST' ? 303 : options.redirectStatus, {
+          Location: location,
+          'Cache-Control': 'no-store',
+          ...headers
+        });
+        res.end();
+        return;
+      }
+
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      // Only bad input is the client's fault; anything else is a server bug whose details stay in the log
+      if (error instanceof ValidationError) {
+        logger.warn('API_REQUEST_REJECTED', { method: req.method, path: pathname, error: error.message });
+        return sendJson(res, 400, { error: error.message });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('API_REQUEST_FAILED', { method: req.method, path: pathname, error: errorMessage });
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  };
@@ -0,0 +1,222 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NewerSchemaError, SCHEMA_VERSION } from '../src/services/persistenceSchema';
+import { LocalStorageAdapter, MemoryStorageAdapter, STORAGE_KEY } from '../src/services/storageAdapters';
+import { URLService } from '../src/services/urlService';
+import { PersistedUrlStore, QuarantinedRecord, ShortenedURL, StorageAdapter } from '../src/types';
+import { FileStorageAdapter } from './fileStorageAdapter';
+
+// Just enough of the Storage API for LocalStorageAdapter outside a browser
+class MemoryLocalStorage {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+interface Backend {
+  name: string;
+  // Seeds the backing store with raw stored data and returns an adapter over it
+  open(stored?: unknown): Promise<StorageAdapter>;
+  // A second adapter over the same backing store, as after a restart
+  reopen(adapter: StorageAdapter): StorageAdapter;
+  quarantine(adapter: StorageAdapter): Promise<QuarantinedRecord[]>;
+}
+
+interface PersistentBackend extends Backend {
+  // What the adapter left in the browser or on disk
+  readStored(): Promise<PersistedUrlStore>;
+}
+
+let tempDir = '';
+let services: URLService[] = [];
+const dataFile = () => path.join(tempDir, 'urls.json');
+const localStorageShim = () => (globalThis as unknown as { localStorage: MemoryLocalStorage }).localStorage;
+
+const memoryBackend: Backend = {
+  name: 'memory',
+  open: async (stored = []) => new MemoryStorageAdapter(stored),
+  // Memory storage lives in the adapter itself
+  reopen: adapter => adapter,
+  quarantine: async adapter => (adapter as MemoryStorageAdapter).quarantined
+};
+
+const persistentBackends: PersistentBackend[] = [
+  {
+    name: 'localStorage',
+    open: async stored => {
+      if (stored !== undefined) localStorageShim().setItem(STORAGE_KEY, JSON.stringify(stored));
+      return new LocalStorageAdapter();
+    },
+    reopen: () => new LocalStorageAdapter(),
+    readStored: async () => JSON.parse(localStorageShim().getItem(STORAGE_KEY) || 'null'),
+    quarantine: async () => JSON.parse(localStorageShim().getItem(`${STORAGE_KEY}_quarantine`) || '[]')
+  },
+  {
+    name: 'file',
+    open: async stored => {
+      if (stored !== undefined) await fs.writeFile(dataFile(), JSON.stringify(stored));
+      return new FileStorageAdapter(dataFile());
+    },
+    reopen: () => new FileStorageAdapter(dataFile()),
+    readStored: async () => JSON.parse(await fs.readFile(dataFile(), 'utf8')),
+    quarantine: async () => {
+      const stored = await fs.readFile(path.join(tempDir, 'urls.quarantine.json'), 'utf8').catch(() => '[]');
+      return JSON.parse(stored);
+    }
+  }
+];
+
+const backends: Backend[] = [memoryBackend, ...persistentBackends];
+
+const storedUrl = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id: 'url_1',
+  originalUrl: 'https://example.com/page',
+  shortCode: 'abc123',
+  shortUrl: 'http://localhost/abc123',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  expiresAt: '2999-01-01T00:00:00.000Z',
+  isActive: true,
+  clickCount: 1,
+  clicks: [{ id: 'click_1', timestamp: '2024-01-01T01:00:00.000Z', userAgent: 'test', ipAddress: '', referrer: '', location: '' }],
+  revisions: [],
+  tags: ['launch'],
+  ...overrides
+});
+
+// URLService saves in the background; this waits for every save it has started
+const trackSaves = (adapter: StorageAdapter) => {
+  const saves: Promise<void>[] = [];
+  const tracked: StorageAdapter = {
+    backend: adapter.backend,
+    load: () => adapter.load(),
+    save: (urls: ShortenedURL[]) => {
+      const save = adapter.save(urls);
+      saves.push(save);
+      return save;
+    }
+  };
+  const flush = async () => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await Promise.all(saves);
+  };
+  return { tracked, flush };
+};
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'url-shortener-'));
+  (globalThis as unknown as { localStorage: MemoryLocalStorage }).localStorage = new MemoryLocalStorage();
+});
+
+afterEach(async () => {
+  services.forEach(service => service.dispose());
+  services = [];
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe.each(backends)('$name storage', backend => {
+  it('loads nothing from an empty store', async () => {
+    const adapter = await backend.open();
+    expect(await adapter.load()).toEqual([]);
+  });
+
+  it('round-trips saved links with their dates', async () => {
+    const adapter = await backend.open({ schemaVersion: SCHEMA_VERSION, urls: [storedUrl()] });
+    const [url] = await adapter.load();
+    await adapter.save([{ ...url, clickCount: 2, tags: ['launch', 'promo'] }]);
+
+    const [reloaded] = await backend.reopen(adapter).load();
+    expect(reloaded.createdAt).toBeInstanceOf(Date);
+    expect(reloaded.clicks[0].timestamp).toEqual(new Date('2024-01-01T01:00:00.000Z'));
+    expect(reloaded).toEqual({ ...url, clickCount: 2, tags: ['launch', 'promo'] });
+  });
+
+  it('migrates a legacy bare array', async () => {
+    const adapter = await backend.open([storedUrl({ tags: undefined, revisions: undefined })]);
+
+    const [url] = await adapter.load();
+    expect(url.revisions).toEqual([]);
+    expect(url.tags).toEqual([]);
+    expect(await backend.reopen(adapter).load()).toEqual([url]);
+  });
+
+  it('quarantines a corrupt record and keeps loading the rest', async () => {
+    const adapter = await backend.open({
+      schemaVersion: SCHEMA_VERSION,
+      urls: [storedUrl(), storedUrl({ id: 'url_2', shortCode: 'broken', createdAt: 'yesterday' })]
+    });
+
+    expect((await adapter.load()).map(url => url.id)).toEqual(['url_1']);
+
+    const quarantined = await backend.quarantine(adapter);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0].reasons).toEqual(['createdAt is not a valid date']);
+    expect(quarantined[0].record).toMatchObject({ id: 'url_2' });
+    expect((await backend.reopen(adapter).load()).map(url => url.id)).toEqual(['url_1']);
+  });
+
+  it('refuses to save over data from a newer schema', async () => {
+    const stored = { schemaVersion: SCHEMA_VERSION + 1, urls: [storedUrl({ futureField: 'kept' })] };
+    const adapter = await backend.open(stored);
+
+    const urls = await adapter.load();
+    expect(urls).toHaveLength(1);
+    await expect(adapter.save(urls)).rejects.toThrow(NewerSchemaError);
+
+    const [kept] = await backend.reopen(adapter).load();
+    expect(kept).toMatchObject({ id: 'url_1', futureField: 'kept' });
+  });
+
+  it('backs URLService the same way as every other backend', async () => {
+    const { tracked, flush } = trackSaves(await backend.open());
+    const service = new URLService(tracked, 'http://localhost');
+    services.push(service);
+    await service.ready;
+
+    const kept = await service.shortenUrl('https://example.com/kept', 'kept', 60);
+    const removed = await service.shortenUrl('https://example.com/removed', 'removed', 60);
+    expect(service.getUrlByShortCode('kept')?.id).toBe(kept.id);
+    expect(service.recordClick('kept', 'test', 'https://referrer.example/')).toBe(true);
+    expect(service.deleteUrl(removed.id)).toBe(true);
+    expect(service.getUrlByShortCode('removed')).toBeNull();
+    expect(service.recordClick('removed', 'test', '')).toBe(false);
+    await flush();
+
+    const reloaded = new URLService(backend.reopen(tracked), 'http://localhost');
+    services.push(reloaded);
+    await reloaded.ready;
+    const url = reloaded.getUrlByShortCode('kept');
+    expect(url?.clickCount).toBe(1);
+    expect(url?.clicks[0].referrer).toBe('https://referrer.example/');
+    expect(reloaded.getUrlByShortCode('removed')).toBeNull();
+  });
+});
+
+describe.each(persistentBackends)('$name storage format', backend => {
+  it('rewrites legacy data in the versioned format', async () => {
+    const adapter = await backend.open([storedUrl()]);
+    await adapter.load();
+
+    const stored = await backend.readStored();
+    expect(stored.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(stored.urls).toEqual([expect.objectContaining({ id: 'url_1' })]);
+  });
+
+  it('leaves newer data exactly as it was', async () => {
+    const newer = { schemaVersion: SCHEMA_VERSION + 1, urls: [storedUrl({ futureField: 'kept' })] };
+    const adapter = await backend.open(newer);
+
+    await adapter.save(await adapter.load()).catch(() => undefined);
+    expect(await backend.readStored()).toEqual(newer);
+  });
+});
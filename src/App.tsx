@@ -3,9 +3,19 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Navigation } from './components/Navigation';
 import { URLShortener } from './pages/URLShortener';
 import { Statistics } from './pages/Statistics';
+import { LogExplorer } from './pages/LogExplorer';
+import { SignIn } from './pages/SignIn';
 import { RedirectHandler } from './components/RedirectHandler';
+import { AuthProvider, useAuth } from './components/AuthProvider';
 import { logger } from './utils/logger';
 
+const RequireSignIn: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) return null;
+  return user ? <>{children}</> : <SignIn />;
+};
+
 function App() {
   React.useEffect(() => {
     logger.info('APPLICATION_STARTED', {
@@ -16,28 +26,42 @@ function App() {
   }, []);
 
   return (
-    <Router>
-      <div className="min-h-screen bg-gray-50">
-        <Routes>
-          {/* Redirect route - must come first to catch short codes */}
-          <Route path="/:shortCode" element={<RedirectHandler />} />
+    <AuthProvider>
+      <Router>
+        <div className="min-h-screen bg-gray-50">
+          <Routes>
+            {/* Redirect route - must come first to catch short codes */}
+            <Route path="/:shortCode" element={<RedirectHandler />} />
           
-          {/* Main application routes */}
-          <Route path="/" element={
-            <>
-              <Navigation />
-              <URLShortener />
-            </>
-          } />
-          <Route path="/statistics" element={
-            <>
-              <Navigation />
-              <Statistics />
-            </>
-          } />
-        </Routes>
-      </div>
-    </Router>
+            {/* Main application routes */}
+            <Route path="/" element={
+              <>
+                <Navigation />
+                <RequireSignIn>
+                  <URLShortener />
+                </RequireSignIn>
+              </>
+            } />
+            <Route path="/statistics" element={
+              <>
+                <Navigation />
+                <RequireSignIn>
+                  <Statistics />
+                </RequireSignIn>
+              </>
+            } />
+            <Route path="/logs" element={
+              <>
+                <Navigation />
+                <RequireSignIn>
+                  <LogExplorer />
+                </RequireSignIn>
+              </>
+            } />
+          </Routes>
+        </div>
+      </Router>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,78 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { authClient } from '../services/authClient';
+import { logger } from '../utils/logger';
+import { PublicUser } from '../types';
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  isLoading: boolean;
+  signIn: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    authClient.getCurrentUser()
+      .then(setUser)
+      .catch(error => {
+        logger.error('SESSION_RESTORE_FAILED', { error: error instanceof Error ? error.message : 'Unknown error' });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    logger.setUserId(user?.id);
+  }, [user]);
+
+  const signIn = useCallback(async (username: string, password: string) => {
+    setUser(await authClient.signIn(username, password));
+  }, []);
+
+  const register = useCallback(async (username: string, password: string) => {
+    setUser(await authClient.register(username, password));
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await authClient.signOut();
+    logger.info('USER_SIGNED_OUT', { userId: user?.id });
+    setUser(null);
+  }, [user]);
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, signIn, register, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+};
+
+// Owner names for admins, who see everyone's links; other users only ever see their own
+export const useUsernames = (): Record<string, string> => {
+  const { user } = useAuth();
+  const [usernames, setUsernames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (user?.role !== 'admin') return;
+
+    authClient.getUsers()
+      .then(users => setUsernames(Object.fromEntries(users.map(other => [other.id, other.username]))))
+      .catch(error => {
+        logger.error('USER_LIST_LOAD_FAILED', { error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+  }, [user]);
+
+  return usernames;
+};
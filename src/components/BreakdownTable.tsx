@@ -0,0 +1,32 @@
+import React from 'react';
+import { BreakdownRow } from '../types';
+
+interface BreakdownTableProps {
+  rows: BreakdownRow[];
+  emptyMessage: string;
+  limit?: number;
+}
+
+export const BreakdownTable: React.FC<BreakdownTableProps> = ({ rows, emptyMessage, limit = 10 }) => {
+  if (rows.length === 0) {
+    return <p className="text-gray-500 text-center py-4 text-sm">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.slice(0, limit).map((row) => (
+        <div key={row.label} className="text-sm">
+          <div className="flex justify-between gap-4 mb-1">
+            <span className="truncate text-gray-700">{row.label}</span>
+            <span className="whitespace-nowrap text-gray-500">
+              {row.count} ({row.percentage}%)
+            </span>
+          </div>
+          <div className="h-1.5 bg-gray-100 rounded">
+            <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${row.percentage}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { Card } from './Card';
+import { urlClient } from '../services/urlClient';
+import { detectFormat, exportUrls, importRows, parseImportFile } from '../utils/importExport';
+import { downloadFile } from '../utils/download';
+import { logger } from '../utils/logger';
+import { ImportResult, TransferFormat } from '../types';
+
+interface BulkImportExportProps {
+  onImported: () => void;
+}
+
+export const BulkImportExport: React.FC<BulkImportExportProps> = ({ onImported }) => {
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [importError, setImportError] = useState('');
+  const [exportError, setExportError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [includeClicks, setIncludeClicks] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError('');
+    setResults([]);
+    setIsImporting(true);
+
+    try {
+      const content = await file.text();
+      const format = detectFormat(file.name, content);
+      const rows = parseImportFile(content, format);
+
+      if (rows.length === 0) {
+        setImportError('The file does not contain any rows to import');
+        return;
+      }
+
+      logger.info('BULK_IMPORT_STARTED', { fileName: file.name, format, rowCount: rows.length });
+      setResults(await importRows(rows, urlClient));
+      onImported();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      setImportError(`Could not read file: ${errorMessage}`);
+      logger.error('BULK_IMPORT_FAILED', { fileName: file.name, error: errorMessage });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = async (format: TransferFormat) => {
+    setExportError('');
+    try {
+      const urls = await urlClient.getAllUrls();
+      const content = exportUrls(urls, format, includeClicks);
+      const date = new Date().toISOString().slice(0, 10);
+
+      downloadFile(
+        content,
+        `short-urls-${date}.${format}`,
+        format === 'json' ? 'application/json' : 'text/csv'
+      );
+      logger.info('URLS_EXPORTED', { format, includeClicks, count: urls.length });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      setExportError(`Could not export links: ${errorMessage}`);
+      logger.error('URL_EXPORT_FAILED', { format, error: errorMessage });
+    }
+  };
+
+  const succeeded = results.filter(result => result.success).length;
+
+  return (
+    <Card title="Bulk Import & Export" className="mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Import from CSV or JSON
+          </label>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={isImporting}
+            className="block w-full text-sm text-gray-600"
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            Columns: <span className="font-mono">originalUrl</span>, <span className="font-mono">shortCode</span> (optional),{' '}
+            <span className="font-mono">expiryMinutes</span> (optional)
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Export all URLs</label>
+          <div className="flex gap-2 mb-2">
+            <Button variant="secondary" onClick={() => handleExport('csv')} className="text-xs px-3 py-1">
+              Export CSV
+            </Button>
+            <Button variant="secondary" onClick={() => handleExport('json')} className="text-xs px-3 py-1">
+              Export JSON
+            </Button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeClicks}
+              onChange={(e) => setIncludeClicks(e.target.checked)}
+            />
+            Include click events
+          </label>
+        </div>
+      </div>
+
+      {isImporting && <p className="mt-4 text-sm text-gray-500">Importing...</p>}
+
+      {importError && (
+        <div className="mt-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {importError}
+        </div>
+      )}
+
+      {exportError && (
+        <div className="mt-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {exportError}
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-700 mb-2">
+            Imported {succeeded} of {results.length} rows
+          </p>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {results.map((result) => (
+              <div
+                key={result.row}
+                className={`text-xs p-2 rounded ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+              >
+                <div className="flex justify-between gap-4">
+                  <span className="truncate">Row {result.row}: {result.originalUrl || '(empty)'}</span>
+                  <span className="font-mono whitespace-nowrap">
+                    {result.success ? `/${result.shortCode}` : 'Failed'}
+                  </span>
+                </div>
+                {result.errors.map((error) => (
+                  <div key={error}>{error}</div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
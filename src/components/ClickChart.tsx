@@ -0,0 +1,117 @@
+import React from 'react';
+import { TimeBucket, TimeGranularity } from '../types';
+import { formatBucketLabel } from '../utils/timeSeries';
+
+interface ClickChartProps {
+  buckets: TimeBucket[];
+  granularity: TimeGranularity;
+  previousBuckets?: TimeBucket[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 32 };
+
+export const ClickChart: React.FC<ClickChartProps> = ({
+  buckets,
+  granularity,
+  previousBuckets,
+  height = 200
+}) => {
+  if (buckets.length === 0) {
+    return <p className="text-gray-500 text-center py-4 text-sm">No data for this period</p>;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const maxCount = Math.max(
+    1,
+    ...buckets.map(bucket => bucket.count),
+    ...(previousBuckets || []).map(bucket => bucket.count)
+  );
+
+  const slot = plotWidth / buckets.length;
+  const barWidth = Math.max(1, slot * 0.7);
+  const x = (index: number) => PADDING.left + index * slot;
+  const y = (count: number) => PADDING.top + plotHeight - (count / maxCount) * plotHeight;
+
+  // The previous period is drawn as a line over the bars, aligned bucket-for-bucket
+  const previousPoints = (previousBuckets || [])
+    .slice(0, buckets.length)
+    .map((bucket, index) => `${x(index) + slot / 2},${y(bucket.count)}`)
+    .join(' ');
+
+  const labelIndexes = Array.from(new Set([0, Math.floor(buckets.length / 2), buckets.length - 1]));
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Clicks over time"
+      >
+        <line
+          x1={PADDING.left}
+          y1={PADDING.top + plotHeight}
+          x2={WIDTH - PADDING.right}
+          y2={PADDING.top + plotHeight}
+          stroke="#e5e7eb"
+        />
+        <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" fontSize="10" fill="#6b7280">
+          {maxCount}
+        </text>
+        <text x={PADDING.left - 4} y={PADDING.top + plotHeight} textAnchor="end" fontSize="10" fill="#6b7280">
+          0
+        </text>
+
+        {buckets.map((bucket, index) => (
+          <rect
+            key={bucket.start.getTime()}
+            x={x(index) + (slot - barWidth) / 2}
+            y={y(bucket.count)}
+            width={barWidth}
+            height={PADDING.top + plotHeight - y(bucket.count)}
+            fill="#3b82f6"
+          >
+            <title>{`${formatBucketLabel(bucket.start, granularity)}: ${bucket.count} clicks`}</title>
+          </rect>
+        ))}
+
+        {previousPoints && (
+          <polyline
+            points={previousPoints}
+            fill="none"
+            stroke="#f97316"
+            strokeWidth={2}
+            strokeDasharray="4 3"
+          />
+        )}
+
+        {labelIndexes.map((index) => (
+          <text
+            key={index}
+            x={x(index) + slot / 2}
+            y={height - 6}
+            textAnchor={index === 0 ? 'start' : index === buckets.length - 1 ? 'end' : 'middle'}
+            fontSize="10"
+            fill="#6b7280"
+          >
+            {formatBucketLabel(buckets[index].start, granularity)}
+          </text>
+        ))}
+      </svg>
+
+      {previousBuckets && (
+        <div className="flex gap-4 text-xs text-gray-500 mt-1">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 bg-blue-500 rounded-sm" /> Current period
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 border-t-2 border-dashed border-orange-500" /> Previous period
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
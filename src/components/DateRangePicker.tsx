@@ -0,0 +1,87 @@
+import React from 'react';
+import { DateRangeFilter, DateRangePreset, TimeGranularity } from '../types';
+
+interface DateRangePickerProps {
+  value: DateRangeFilter;
+  onChange: (value: DateRangeFilter) => void;
+}
+
+const PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom' }
+];
+
+const GRANULARITIES: { value: TimeGranularity; label: string }[] = [
+  { value: 'hour', label: 'Hourly' },
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' }
+];
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange }) => {
+  const inputClasses = 'px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Date Range</label>
+        <select
+          value={value.preset}
+          onChange={(e) => onChange({ ...value, preset: e.target.value as DateRangePreset })}
+          className={inputClasses}
+        >
+          {PRESETS.map((preset) => (
+            <option key={preset.value} value={preset.value}>{preset.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {value.preset === 'custom' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+            <input
+              type="date"
+              value={value.customStart}
+              onChange={(e) => onChange({ ...value, customStart: e.target.value })}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+            <input
+              type="date"
+              value={value.customEnd}
+              onChange={(e) => onChange({ ...value, customEnd: e.target.value })}
+              className={inputClasses}
+            />
+          </div>
+        </>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Group By</label>
+        <select
+          value={value.granularity}
+          onChange={(e) => onChange({ ...value, granularity: e.target.value as TimeGranularity })}
+          className={inputClasses}
+        >
+          {GRANULARITIES.map((granularity) => (
+            <option key={granularity.value} value={granularity.value}>{granularity.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+        <input
+          type="checkbox"
+          checked={value.compare}
+          onChange={(e) => onChange({ ...value, compare: e.target.checked })}
+        />
+        Compare to previous period
+      </label>
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ interface InputProps {
   label: string;
   value: string;
   onChange: (value: string) => void;
-  type?: 'text' | 'url' | 'number';
+  type?: 'text' | 'url' | 'number' | 'password' | 'datetime-local';
   placeholder?: string;
   error?: string;
   required?: boolean;
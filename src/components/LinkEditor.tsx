@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Input } from './Input';
+import { Button } from './Button';
+import { fromRuleDrafts, RedirectRulesEditor, RuleDraft, toRuleDraft } from './RedirectRulesEditor';
+import { fromVariantDrafts, SplitVariantsEditor, toVariantDraft, VariantDraft } from './SplitVariantsEditor';
+import { RedirectOptionsFields } from './RedirectOptionsFields';
+import { urlClient } from '../services/urlClient';
+import { validateLinkUpdate } from '../utils/validation';
+import { getLinkStatus } from '../utils/linkStatus';
+import { formatTags, parseTagInput } from '../utils/tags';
+import { formatRedirectRules } from '../utils/redirectRules';
+import { formatSplitVariants } from '../utils/splitVariants';
+import { formatRedirectOptions, getRedirectOptions } from '../utils/redirectOptions';
+import { logger } from '../utils/logger';
+import { LinkUpdate, ShortenedURL } from '../types';
+
+interface LinkEditorProps {
+  url: ShortenedURL;
+  onSaved: (url: ShortenedURL) => void;
+  onCancel: () => void;
+}
+
+// datetime-local inputs want local time without seconds or a zone suffix
+const toDateTimeLocal = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+export const LinkEditor: React.FC<LinkEditorProps> = ({ url, onSaved, onCancel }) => {
+  const status = getLinkStatus(url);
+  const [originalUrl, setOriginalUrl] = useState(url.originalUrl);
+  const [shortCode, setShortCode] = useState(url.shortCode);
+  const [expiresAt, setExpiresAt] = useState(toDateTimeLocal(url.expiresAt));
+  const [startsAt, setStartsAt] = useState(url.startsAt ? toDateTimeLocal(url.startsAt) : '');
+  const [prelaunchUrl, setPrelaunchUrl] = useState(url.prelaunchUrl || '');
+  const [tags, setTags] = useState(formatTags(url.tags));
+  const [rules, setRules] = useState<RuleDraft[]>((url.redirectRules || []).map(toRuleDraft));
+  const [variants, setVariants] = useState<VariantDraft[]>((url.splitVariants || []).map(toVariantDraft));
+  const [redirectOptions, setRedirectOptions] = useState(getRedirectOptions(url));
+  const [reactivate, setReactivate] = useState(false);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Only send what changed so an untouched past expiry doesn't fail validation
+    const update: LinkUpdate = {};
+    if (originalUrl !== url.originalUrl) update.originalUrl = originalUrl;
+    if (shortCode !== url.shortCode) update.shortCode = shortCode;
+    if (expiresAt !== toDateTimeLocal(url.expiresAt)) update.expiresAt = new Date(expiresAt);
+    // Clearing the go-live time puts the link live straight away
+    if (startsAt !== (url.startsAt ? toDateTimeLocal(url.startsAt) : '')) update.startsAt = startsAt ? new Date(startsAt) : null;
+    if (prelaunchUrl !== (url.prelaunchUrl || '')) update.prelaunchUrl = prelaunchUrl;
+    if (formatTags(parseTagInput(tags)) !== formatTags(url.tags)) update.tags = parseTagInput(tags);
+    const redirectRules = fromRuleDrafts(rules);
+    if (formatRedirectRules(redirectRules) !== formatRedirectRules(url.redirectRules)) update.redirectRules = redirectRules;
+    const splitVariants = fromVariantDrafts(variants);
+    if (formatSplitVariants(splitVariants) !== formatSplitVariants(url.splitVariants)) update.splitVariants = splitVariants;
+    if (formatRedirectOptions(redirectOptions) !== formatRedirectOptions(getRedirectOptions(url))) update.redirectOptions = redirectOptions;
+    if (reactivate) update.isActive = true;
+
+    if (Object.keys(update).length === 0) {
+      onCancel();
+      return;
+    }
+
+    const validation = validateLinkUpdate(update);
+    if (!validation.isValid) {
+      setError(validation.errors[0]);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      onSaved(await urlClient.updateUrl(url.id, update));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMessage);
+      logger.error('URL_UPDATE_FAILED', { id: url.id, error: errorMessage });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Input
+        label="Destination URL"
+        value={originalUrl}
+        onChange={setOriginalUrl}
+        type="url"
+        required
+      />
+
+      <Input
+        label="Short Code"
+        value={shortCode}
+        onChange={setShortCode}
+        required
+      />
+      {shortCode !== url.shortCode && (
+        <p className="-mt-2 mb-4 text-xs text-yellow-700">
+          The old short URL will stop working once the code is renamed.
+        </p>
+      )}
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Expires At</label>
+        <input
+          type="datetime-local"
+          value={expiresAt}
+          onChange={(e) => setExpiresAt(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Goes Live At</label>
+        <input
+          type="datetime-local"
+          value={startsAt}
+          onChange={(e) => setStartsAt(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {status === 'scheduled' && (
+          <p className="mt-1 text-xs text-gray-500">Clear this to put the link live now.</p>
+        )}
+      </div>
+
+      {startsAt && (
+        <Input
+          label="Pre-launch URL"
+          value={prelaunchUrl}
+          onChange={setPrelaunchUrl}
+          type="url"
+          placeholder="Leave empty to show a countdown page"
+        />
+      )}
+
+      <Input
+        label="Tags"
+        value={tags}
+        onChange={setTags}
+        placeholder="marketing, q3-launch"
+      />
+
+      <RedirectRulesEditor rules={rules} onChange={setRules} />
+
+      <SplitVariantsEditor variants={variants} onChange={setVariants} defaultDestination={originalUrl} />
+
+      <RedirectOptionsFields options={redirectOptions} onChange={setRedirectOptions} />
+
+      {status !== 'active' && status !== 'scheduled' && (
+        <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={reactivate}
+            onChange={(e) => setReactivate(e.target.checked)}
+            disabled={status === 'limit-reached'}
+          />
+          {status === 'limit-reached'
+            ? 'This link reached its click limit and cannot be reactivated'
+            : 'Reactivate this link (set a future expiry time)'}
+        </label>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </Button>
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
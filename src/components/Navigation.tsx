@@ -1,8 +1,10 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from './AuthProvider';
 
 export const Navigation: React.FC = () => {
   const location = useLocation();
+  const { user, signOut } = useAuth();
 
   const isActive = (path: string) => {
     return location.pathname === path;
@@ -18,7 +20,7 @@ export const Navigation: React.FC = () => {
             </Link>
           </div>
 
-          <div className="flex space-x-8">
+          <div className="flex items-center space-x-8">
             <Link
               to="/"
               className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -39,6 +41,29 @@ export const Navigation: React.FC = () => {
             >
               Statistics
             </Link>
+            <Link
+              to="/logs"
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                isActive('/logs') 
+                  ? 'bg-blue-100 text-blue-700' 
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              Logs
+            </Link>
+            {user && (
+              <div className="flex items-center gap-3 text-sm text-gray-600">
+                <span>
+                  {user.username}
+                  {user.role === 'admin' && (
+                    <span className="ml-2 text-xs px-2 py-1 rounded bg-purple-100 text-purple-800">Admin</span>
+                  )}
+                </span>
+                <button onClick={signOut} className="text-gray-500 hover:text-gray-900">
+                  Sign out
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { Select } from './Select';
+import { encodeQrCode, renderQrPng, renderQrSvg } from '../utils/qrCode';
+import { downloadFile } from '../utils/download';
+import { logger } from '../utils/logger';
+import { QRErrorCorrectionLevel, ShortenedURL } from '../types';
+
+interface QRCodePanelProps {
+  url: ShortenedURL;
+}
+
+const SIZE_OPTIONS = [128, 256, 512, 1024].map(size => ({ value: String(size), label: `${size} px` }));
+
+const LEVEL_OPTIONS = [
+  { value: 'L', label: 'Low (7%)' },
+  { value: 'M', label: 'Medium (15%)' },
+  { value: 'Q', label: 'Quartile (25%)' },
+  { value: 'H', label: 'High (30%)' }
+];
+
+export const QRCodePanel: React.FC<QRCodePanelProps> = ({ url }) => {
+  const [size, setSize] = useState(256);
+  const [level, setLevel] = useState<QRErrorCorrectionLevel>('M');
+  const [foreground, setForeground] = useState('#000000');
+  const [background, setBackground] = useState('#ffffff');
+  const [error, setError] = useState('');
+
+  const modules = useMemo(() => encodeQrCode(url.shortUrl, level), [url.shortUrl, level]);
+  const options = { size, foreground, background };
+  const svg = renderQrSvg(modules, options);
+
+  const handleDownload = async (format: 'svg' | 'png') => {
+    setError('');
+    try {
+      const fileName = `qr-${url.shortCode}.${format}`;
+      if (format === 'svg') {
+        downloadFile(svg, fileName, 'image/svg+xml');
+      } else {
+        downloadFile(await renderQrPng(modules, options), fileName, 'image/png');
+      }
+      logger.info('QR_CODE_DOWNLOADED', { shortCode: url.shortCode, format, size, level });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Could not create QR code: ${errorMessage}`);
+      logger.error('QR_CODE_DOWNLOAD_FAILED', { shortCode: url.shortCode, format, error: errorMessage });
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      <div className="flex-shrink-0 flex items-center justify-center border rounded-lg p-2 bg-gray-50">
+        <img
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+          alt={`QR code for ${url.shortUrl}`}
+          className="w-40 h-40"
+        />
+      </div>
+
+      <div className="flex-1">
+        <div className="grid grid-cols-2 gap-x-4">
+          <Select
+            label="Size"
+            value={String(size)}
+            onChange={(value) => setSize(Number(value))}
+            options={SIZE_OPTIONS}
+          />
+          <Select
+            label="Error Correction"
+            value={level}
+            onChange={(value) => setLevel(value as QRErrorCorrectionLevel)}
+            options={LEVEL_OPTIONS}
+          />
+          <label className="block text-sm font-medium text-gray-700 mb-4">
+            Foreground
+            <input
+              type="color"
+              value={foreground}
+              onChange={(e) => setForeground(e.target.value)}
+              className="block w-full h-9 mt-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700 mb-4">
+            Background
+            <input
+              type="color"
+              value={background}
+              onChange={(e) => setBackground(e.target.value)}
+              className="block w-full h-9 mt-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => handleDownload('svg')} className="text-xs px-3 py-1">
+            Download SVG
+          </Button>
+          <Button variant="secondary" onClick={() => handleDownload('png')} className="text-xs px-3 py-1">
+            Download PNG
+          </Button>
+        </div>
+
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -1,46 +1,259 @@
-import React, { useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
-import { urlService } from '../services/urlService';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation, useParams } from 'react-router-dom';
+import { urlClient } from '../services/urlClient';
+import { ClickDetails, PublicLink, RedirectOptions } from '../types';
 import { logger } from '../utils/logger';
+import { buildDestinationUrl, extractCampaignParams } from '../utils/queryParams';
+import { resolveRedirect } from '../utils/redirectRules';
+import { getBrowserVisitorId } from '../utils/splitVariants';
+import { DEFAULT_REDIRECT_OPTIONS, getDestinationPreview, getRedirectOptions } from '../utils/redirectOptions';
+import { formatCountdown } from '../utils/linkStatus';
+
+type RedirectStatus =
+  | 'loading'
+  | 'password-required'
+  | 'redirecting'
+  | 'confirm'
+  | 'cancelled'
+  | 'scheduled'
+  | 'not-found'
+  | 'expired'
+  | 'limit-reached';
+
+interface PendingClick {
+  shortCode: string;
+  visitToken: string;
+  userAgent: string;
+  referrer: string;
+  details: ClickDetails;
+}
+
+// The referrer policy is read when navigation starts, so the meta tag has to be in place first
+const navigateTo = (url: string, stripReferrer: boolean, replace = false) => {
+  if (stripReferrer) {
+    const meta = document.createElement('meta');
+    meta.name = 'referrer';
+    meta.content = 'no-referrer';
+    document.head.appendChild(meta);
+  }
+
+  if (replace) {
+    window.location.replace(url);
+  } else {
+    window.location.href = url;
+  }
+};
 
 export const RedirectHandler = () => {
   const { shortCode } = useParams<{ shortCode: string }>();
-  const [status, setStatus] = useState<'loading' | 'redirecting' | 'not-found' | 'expired'>('loading');
+  const location = useLocation();
+  const [status, setStatus] = useState<RedirectStatus>('loading');
+  const [destination, setDestination] = useState('');
+  const [redirectOptions, setRedirectOptions] = useState<RedirectOptions>(DEFAULT_REDIRECT_OPTIONS);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [startsAt, setStartsAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Bumped at launch time to look the link up again
+  const [lookup, setLookup] = useState(0);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  // Held until the visitor actually leaves, so cancelling at a preview never counts as a visit
+  const pendingClick = useRef<PendingClick | null>(null);
+
+  const continueTo = useCallback(async (targetUrl: string, options: RedirectOptions, replace = false) => {
+    const click = pendingClick.current;
+    // Taken before the request so the countdown and the button can't both count it
+    pendingClick.current = null;
+    if (!click) return;
+
+    try {
+      let result = await urlClient.recordClick(click.shortCode, click.visitToken, click.userAgent, click.referrer, click.details);
+
+      // Tokens expire while an interstitial is left open; a fresh lookup hands out a new one
+      if (result.reason === 'invalid-token') {
+        const { status: linkStatus, link, visitToken } = await urlClient.resolveShortCode(click.shortCode);
+        if (linkStatus === 'active' && link?.hasPassword) {
+          setStatus('password-required');
+          return;
+        }
+        result = visitToken
+          ? await urlClient.recordClick(click.shortCode, visitToken, click.userAgent, click.referrer, click.details)
+          : { recorded: false, reason: linkStatus === 'active' ? 'invalid-token' : linkStatus };
+      }
+
+      // A capped or timed link can run out between the lookup and the click
+      if (!result.recorded) {
+        setStatus(result.reason === 'limit-reached' || result.reason === 'expired' ? result.reason : 'not-found');
+        logger.warn('REDIRECT_CLICK_REFUSED', { shortCode: click.shortCode, reason: result.reason });
+        return;
+      }
+    } catch (error) {
+      pendingClick.current = click;
+      logger.error('CLICK_RECORD_FAILED', { shortCode: click.shortCode, error: error instanceof Error ? error.message : 'Unknown error' });
+      return;
+    }
+
+    navigateTo(targetUrl, options.stripReferrer, replace);
+  }, []);
+
+  const redirectTo = useCallback(async (target: PublicLink, visitToken = '') => {
+    const userAgent = navigator.userAgent;
+    const referrer = document.referrer;
+
+    const campaignParams = extractCampaignParams(location.search);
+    const languages = (navigator.languages?.length ? navigator.languages : [navigator.language])
+      .map(language => language.toLowerCase());
+    const visitorId = target.splitVariants?.length ? getBrowserVisitorId() : undefined;
+    const { destination: resolvedDestination, rule, variant } = resolveRedirect(target, { userAgent, referrer, languages, visitorId });
+
+    pendingClick.current = {
+      shortCode: target.shortCode,
+      visitToken,
+      userAgent,
+      referrer,
+      details: { campaignParams, ruleId: rule?.id, variantId: variant?.id }
+    };
+
+    const targetUrl = buildDestinationUrl(target, location.search, location.hash, resolvedDestination);
+    const options = getRedirectOptions(target);
+    setDestination(targetUrl);
+    setRedirectOptions(options);
+
+    if (options.mode === 'click-through') {
+      setStatus('confirm');
+      return;
+    }
+
+    setStatus('redirecting');
+    if (options.mode === 'instant') {
+      // Replacing keeps this page out of the back-button history
+      await continueTo(targetUrl, options, true);
+      return;
+    }
+    setSecondsLeft(options.countdownSeconds);
+  }, [location.search, location.hash, continueTo]);
 
   useEffect(() => {
+    if (status !== 'redirecting' || redirectOptions.mode !== 'timed') return;
+
+    if (secondsLeft <= 0) {
+      continueTo(destination, redirectOptions);
+      return;
+    }
+
+    const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [status, secondsLeft, destination, redirectOptions, continueTo]);
+
+  // Checked once a second, so a server clock running slightly behind can't cause a burst of lookups
+  useEffect(() => {
+    if (status !== 'scheduled' || !startsAt || destination) return;
+
+    const timer = setTimeout(() => {
+      if (startsAt.getTime() <= Date.now()) {
+        setStatus('loading');
+        setLookup(count => count + 1);
+      } else {
+        setNow(Date.now());
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [status, startsAt, now, destination]);
+
+  const handleCancel = () => {
+    setStatus('cancelled');
+    logger.info('REDIRECT_CANCELLED', { shortCode, secondsLeft });
+  };
+
+  const resolveLink = useCallback(async (isCancelled: () => boolean) => {
     if (!shortCode) {
       setStatus('not-found');
       return;
     }
 
-    const url = urlService.getUrlByShortCode(shortCode);
-    
-    if (!url) {
+    const { status, link, visitToken } = await urlClient.resolveShortCode(shortCode);
+    if (isCancelled()) return;
+
+    if (!link) {
       setStatus('not-found');
       logger.warn('REDIRECT_NOT_FOUND', { shortCode });
       return;
     }
 
-    if (!url.isActive || url.expiresAt < new Date()) {
+    if (status === 'limit-reached') {
+      setStatus('limit-reached');
+      logger.warn('REDIRECT_LIMIT_REACHED', { shortCode });
+      return;
+    }
+
+    if (status === 'expired') {
       setStatus('expired');
-      logger.warn('REDIRECT_EXPIRED', { shortCode, expiresAt: url.expiresAt });
+      logger.warn('REDIRECT_EXPIRED', { shortCode });
       return;
     }
 
-    // Record the click
-    const userAgent = navigator.userAgent;
-    const referrer = document.referrer;
-    
-    urlService.recordClick(shortCode, userAgent, referrer);
-    
-    setStatus('redirecting');
-    
-    // Redirect after a brief delay to show the redirect message
-    setTimeout(() => {
-      window.location.href = url.originalUrl;
-    }, 2000);
+    // Nothing is counted before launch; visitors wait here or on the pre-launch page
+    if (status === 'scheduled' && link.startsAt) {
+      setStartsAt(link.startsAt);
+      setNow(Date.now());
+      setStatus('scheduled');
+      logger.info('REDIRECT_NOT_YET_LIVE', { shortCode, startsAt: link.startsAt });
+      if (link.prelaunchUrl) {
+        setDestination(link.prelaunchUrl);
+        navigateTo(link.prelaunchUrl, false, true);
+      }
+      return;
+    }
+
+    // Protected links wait for the password before counting the click
+    if (link.hasPassword) {
+      setStatus('password-required');
+      return;
+    }
+
+    await redirectTo(link, visitToken);
+  }, [shortCode, redirectTo]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    resolveLink(() => cancelled).catch(error => {
+      if (cancelled) return;
+      setStatus('not-found');
+      logger.error('REDIRECT_LOOKUP_FAILED', { shortCode, error: error instanceof Error ? error.message : 'Unknown error' });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shortCode, lookup, resolveLink]);
 
-  }, [shortCode]);
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shortCode || !password) return;
+
+    setIsUnlocking(true);
+    setPasswordError('');
+
+    try {
+      const result = await urlClient.unlockUrl(shortCode, password);
+
+      if (result.success && result.link) {
+        await redirectTo(result.link, result.visitToken);
+      } else if (result.retryAfterMs) {
+        setPasswordError(`Too many attempts. Try again in ${Math.ceil(result.retryAfterMs / 1000)} seconds.`);
+      } else {
+        setPasswordError('Incorrect password.');
+      }
+    } catch (error) {
+      setPasswordError('Could not verify the password. Please try again.');
+      logger.error('PASSWORD_UNLOCK_FAILED', { shortCode, error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      setPassword('');
+      setIsUnlocking(false);
+    }
+  };
 
   const getStatusMessage = () => {
     switch (status) {
@@ -50,18 +263,52 @@ export const RedirectHandler = () => {
           message: 'Checking URL validity...',
           color: 'blue'
         };
+      case 'password-required':
+        return {
+          title: 'Password Required',
+          message: 'This short URL is password protected. Enter the password to continue.',
+          color: 'blue'
+        };
       case 'redirecting':
         return {
           title: 'Redirecting...',
-          message: 'You will be redirected shortly. If not, click the link below.',
+          message: redirectOptions.mode === 'timed'
+            ? `You will be redirected in ${secondsLeft} second${secondsLeft === 1 ? '' : 's'}. If not, click the link below.`
+            : 'You will be redirected shortly. If not, click the link below.',
           color: 'green'
         };
+      case 'confirm':
+        return {
+          title: 'Unverified Destination',
+          message: 'This link leads to a site that has not been verified. Continue only if you trust it.',
+          color: 'yellow'
+        };
+      case 'scheduled':
+        return {
+          title: 'Not Yet Available',
+          message: destination
+            ? 'This link is not live yet. Taking you to the pre-launch page...'
+            : `This link goes live on ${startsAt?.toLocaleString()}.`,
+          color: 'blue'
+        };
+      case 'cancelled':
+        return {
+          title: 'Redirect Cancelled',
+          message: 'You are still here. Continue below whenever you are ready.',
+          color: 'blue'
+        };
       case 'expired':
         return {
           title: 'Link Expired',
           message: 'This short URL has expired and is no longer valid.',
           color: 'red'
         };
+      case 'limit-reached':
+        return {
+          title: 'Link Limit Reached',
+          message: 'This short URL has reached its maximum number of clicks and is no longer available.',
+          color: 'red'
+        };
       case 'not-found':
         return {
           title: 'Link Not Found',
@@ -78,7 +325,7 @@ export const RedirectHandler = () => {
   };
 
   const statusInfo = getStatusMessage();
-  const url = shortCode ? urlService.getUrlByShortCode(shortCode) : null;
+  const preview = destination ? getDestinationPreview(destination) : undefined;
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -86,18 +333,29 @@ export const RedirectHandler = () => {
         <div className="bg-white rounded-lg shadow-lg p-8 text-center">
           <div className={`w-16 h-16 mx-auto mb-4 rounded-full flex items-center justify-center ${
             statusInfo.color === 'blue' ? 'bg-blue-100' :
-            statusInfo.color === 'green' ? 'bg-green-100' : 'bg-red-100'
+            statusInfo.color === 'green' ? 'bg-green-100' :
+            statusInfo.color === 'yellow' ? 'bg-yellow-100' : 'bg-red-100'
           }`}>
             {status === 'loading' && (
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             )}
-            {status === 'redirecting' && (
-              <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            {status === 'password-required' && (
+              <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            )}
+            {status === 'scheduled' && (
+              <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            )}
+            {(status === 'redirecting' || status === 'cancelled') && (
+              <svg className={`w-8 h-8 ${status === 'cancelled' ? 'text-blue-600' : 'text-green-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
               </svg>
             )}
-            {(status === 'not-found' || status === 'expired') && (
-              <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            {(status === 'confirm' || status === 'not-found' || status === 'expired' || status === 'limit-reached') && (
+              <svg className={`w-8 h-8 ${status === 'confirm' ? 'text-yellow-600' : 'text-red-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
               </svg>
             )}
@@ -105,7 +363,8 @@ export const RedirectHandler = () => {
 
           <h1 className={`text-2xl font-bold mb-2 ${
             statusInfo.color === 'blue' ? 'text-blue-900' :
-            statusInfo.color === 'green' ? 'text-green-900' : 'text-red-900'
+            statusInfo.color === 'green' ? 'text-green-900' :
+            statusInfo.color === 'yellow' ? 'text-yellow-900' : 'text-red-900'
           }`}>
             {statusInfo.title}
           </h1>
@@ -114,21 +373,92 @@ export const RedirectHandler = () => {
             {statusInfo.message}
           </p>
 
-          {status === 'redirecting' && url && (
+          {status === 'password-required' && (
+            <form onSubmit={handlePasswordSubmit} className="mb-6 text-left">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoFocus
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  passwordError ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {passwordError && (
+                <p className="mt-1 text-sm text-red-600">{passwordError}</p>
+              )}
+              <button
+                type="submit"
+                disabled={isUnlocking || !password}
+                className="mt-3 w-full bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-blue-300"
+              >
+                {isUnlocking ? 'Checking...' : 'Continue'}
+              </button>
+            </form>
+          )}
+
+          {(status === 'redirecting' || status === 'confirm' || status === 'cancelled') && destination && (
             <div className="mb-6">
+              {redirectOptions.showPreview && preview && (
+                <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-left">
+                  <div className="text-xs text-gray-500">You are going to</div>
+                  <div className="text-lg font-semibold text-gray-900 break-all">{preview.hostname}</div>
+                  {!preview.isSecure && (
+                    <div className="text-xs text-red-600">Not secure: this site does not use HTTPS</div>
+                  )}
+                  <div className="mt-1 text-xs text-gray-500 break-all">{destination}</div>
+                </div>
+              )}
               <a
-                href={url.originalUrl}
+                href={destination}
+                rel={redirectOptions.stripReferrer ? 'noreferrer' : undefined}
+                onClick={(e) => {
+                  e.preventDefault();
+                  continueTo(destination, redirectOptions);
+                }}
                 className="inline-block bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
               >
                 Continue to Destination
               </a>
-              <div className="mt-3 text-xs text-gray-500 break-all">
-                Destination: {url.originalUrl}
-              </div>
+              {status === 'redirecting' && redirectOptions.mode === 'timed' && (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="ml-2 inline-block bg-gray-200 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              {!redirectOptions.showPreview && (
+                <div className="mt-3 text-xs text-gray-500 break-all">
+                  Destination: {destination}
+                </div>
+              )}
+            </div>
+          )}
+
+          {status === 'scheduled' && startsAt && (
+            <div className="mb-6">
+              {destination ? (
+                <a
+                  href={destination}
+                  className="inline-block bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Continue to Pre-launch Page
+                </a>
+              ) : (
+                <>
+                  <div className="text-3xl font-mono font-bold text-blue-900">
+                    {formatCountdown(startsAt.getTime() - now)}
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">This page will take you there as soon as the link goes live.</p>
+                </>
+              )}
             </div>
           )}
 
-          {(status === 'not-found' || status === 'expired') && (
+          {(status === 'not-found' || status === 'expired' || status === 'limit-reached') && (
             <a
               href="/"
               className="inline-block bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 transition-colors"
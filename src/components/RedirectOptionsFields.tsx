@@ -0,0 +1,53 @@
+import React from 'react';
+import { Input } from './Input';
+import { Select } from './Select';
+import { MAX_COUNTDOWN_SECONDS, REDIRECT_MODE_LABELS, REDIRECT_MODES } from '../utils/redirectOptions';
+import { RedirectMode, RedirectOptions } from '../types';
+
+interface RedirectOptionsFieldsProps {
+  options: RedirectOptions;
+  onChange: (options: RedirectOptions) => void;
+  error?: string;
+}
+
+export const RedirectOptionsFields: React.FC<RedirectOptionsFieldsProps> = ({ options, onChange, error }) => {
+  return (
+    <div className="mb-4">
+      <Select
+        label="Redirect Mode"
+        value={options.mode}
+        onChange={(mode) => onChange({ ...options, mode: mode as RedirectMode })}
+        options={REDIRECT_MODES.map(mode => ({ value: mode, label: REDIRECT_MODE_LABELS[mode] }))}
+      />
+
+      {options.mode === 'timed' && (
+        <Input
+          label="Countdown (seconds)"
+          value={Number.isNaN(options.countdownSeconds) ? '' : String(options.countdownSeconds)}
+          onChange={(value) => onChange({ ...options, countdownSeconds: value === '' ? NaN : Number(value) })}
+          type="number"
+          placeholder={`1 to ${MAX_COUNTDOWN_SECONDS}`}
+          error={error}
+        />
+      )}
+
+      <label className="flex items-center gap-2 mb-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={options.stripReferrer}
+          onChange={(e) => onChange({ ...options, stripReferrer: e.target.checked })}
+        />
+        Hide where visitors came from (no referrer)
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={options.showPreview}
+          onChange={(e) => onChange({ ...options, showPreview: e.target.checked })}
+          disabled={options.mode === 'instant'}
+        />
+        Preview the destination's hostname and full URL before leaving
+      </label>
+    </div>
+  );
+};
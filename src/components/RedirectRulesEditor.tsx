@@ -0,0 +1,205 @@
+import React from 'react';
+import { Input } from './Input';
+import { Button } from './Button';
+import {
+  createRuleId,
+  RULE_DEVICE_TYPES,
+  RULE_OS_OPTIONS,
+  sanitizeRedirectRules,
+  WEEKDAY_LABELS
+} from '../utils/redirectRules';
+import { DeviceType, RedirectRule } from '../types';
+
+// Text fields stay as typed until save so commas and half-written values aren't lost
+export interface RuleDraft {
+  id: string;
+  label: string;
+  destination: string;
+  os: string[];
+  devices: DeviceType[];
+  languages: string;
+  referrerDomains: string;
+  days: number[];
+  startHour: string;
+  endHour: string;
+  timeZone: string;
+}
+
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export const toRuleDraft = (rule: RedirectRule): RuleDraft => ({
+  id: rule.id,
+  label: rule.label,
+  destination: rule.destination,
+  os: rule.os || [],
+  devices: rule.devices || [],
+  languages: (rule.languages || []).join(', '),
+  referrerDomains: (rule.referrerDomains || []).join(', '),
+  days: rule.days || [],
+  startHour: rule.startHour !== undefined ? String(rule.startHour) : '',
+  endHour: rule.endHour !== undefined ? String(rule.endHour) : '',
+  timeZone: rule.timeZone || ''
+});
+
+export const fromRuleDrafts = (drafts: RuleDraft[]): RedirectRule[] =>
+  sanitizeRedirectRules(drafts.map(draft => ({
+    ...draft,
+    languages: splitList(draft.languages),
+    referrerDomains: splitList(draft.referrerDomains),
+    // A time zone only matters once there is a day or hour to apply it to
+    timeZone: draft.days.length > 0 || draft.startHour || draft.endHour ? draft.timeZone : ''
+  })));
+
+const newDraft = (): RuleDraft => ({
+  ...toRuleDraft({ id: createRuleId(), label: '', destination: '' }),
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+});
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+interface RedirectRulesEditorProps {
+  rules: RuleDraft[];
+  onChange: (rules: RuleDraft[]) => void;
+}
+
+export const RedirectRulesEditor: React.FC<RedirectRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const checkboxClasses = 'flex items-center gap-1 text-xs text-gray-700';
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Redirect Rules</label>
+      <p className="text-xs text-gray-500 mb-3">
+        Checked top to bottom; the first rule whose conditions all match decides the destination.
+        Clicks that match no rule go to the destination URL above. Leave a condition empty to ignore it.
+      </p>
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="border border-gray-200 rounded-lg p-3 mb-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-700">Rule {index + 1}</span>
+            <div className="flex gap-2 text-xs">
+              <button type="button" onClick={() => moveRule(index, -1)} disabled={index === 0} className="text-blue-600 disabled:text-gray-300">
+                Up
+              </button>
+              <button type="button" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="text-blue-600 disabled:text-gray-300">
+                Down
+              </button>
+              <button type="button" onClick={() => onChange(rules.filter((_, i) => i !== index))} className="text-red-600">
+                Remove
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-3">
+            <Input label="Label" value={rule.label} onChange={(label) => updateRule(index, { label })} placeholder="iOS app" />
+            <Input
+              label="Destination"
+              value={rule.destination}
+              onChange={(destination) => updateRule(index, { destination })}
+              type="url"
+              placeholder="https://apps.apple.com/..."
+              required
+            />
+          </div>
+
+          <div className="mb-3">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Operating system</span>
+            <div className="flex flex-wrap gap-3">
+              {RULE_OS_OPTIONS.map(os => (
+                <label key={os} className={checkboxClasses}>
+                  <input type="checkbox" checked={rule.os.includes(os)} onChange={() => updateRule(index, { os: toggle(rule.os, os) })} />
+                  {os}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-3">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Device</span>
+            <div className="flex flex-wrap gap-3">
+              {RULE_DEVICE_TYPES.map(device => (
+                <label key={device} className={checkboxClasses}>
+                  <input
+                    type="checkbox"
+                    checked={rule.devices.includes(device)}
+                    onChange={() => updateRule(index, { devices: toggle(rule.devices, device) })}
+                  />
+                  {device}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-3">
+            <Input
+              label="Languages"
+              value={rule.languages}
+              onChange={(languages) => updateRule(index, { languages })}
+              placeholder="hi, mr"
+            />
+            <Input
+              label="Referrer domains"
+              value={rule.referrerDomains}
+              onChange={(referrerDomains) => updateRule(index, { referrerDomains })}
+              placeholder="twitter.com, t.co"
+            />
+          </div>
+
+          <div className="mb-3">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Days</span>
+            <div className="flex flex-wrap gap-3">
+              {WEEKDAY_LABELS.map((day, dayIndex) => (
+                <label key={day} className={checkboxClasses}>
+                  <input
+                    type="checkbox"
+                    checked={rule.days.includes(dayIndex)}
+                    onChange={() => updateRule(index, { days: toggle(rule.days, dayIndex) })}
+                  />
+                  {day}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-x-3">
+            <Input
+              label="From hour"
+              value={rule.startHour}
+              onChange={(startHour) => updateRule(index, { startHour })}
+              type="number"
+              placeholder="0"
+            />
+            <Input
+              label="Until hour"
+              value={rule.endHour}
+              onChange={(endHour) => updateRule(index, { endHour })}
+              type="number"
+              placeholder="24"
+            />
+            <Input
+              label="Time zone"
+              value={rule.timeZone}
+              onChange={(timeZone) => updateRule(index, { timeZone })}
+              placeholder="UTC"
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button variant="secondary" onClick={() => onChange([...rules, newDraft()])}>
+        Add Rule
+      </Button>
+    </div>
+  );
+};
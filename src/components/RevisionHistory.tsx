@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { urlClient } from '../services/urlClient';
+import { logger } from '../utils/logger';
+import { parseRedirectRules } from '../utils/redirectRules';
+import { getVariantLabel, getWeightShare, parseSplitVariants } from '../utils/splitVariants';
+import { describeRedirectOptions, parseRedirectOptions } from '../utils/redirectOptions';
+import { EditableField, RevisionValue, ShortenedURL } from '../types';
+
+interface RevisionHistoryProps {
+  url: ShortenedURL;
+  onRolledBack: (url: ShortenedURL) => void;
+}
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  originalUrl: 'Destination',
+  shortCode: 'Short code',
+  expiresAt: 'Expires',
+  startsAt: 'Goes live',
+  prelaunchUrl: 'Pre-launch URL',
+  isActive: 'Active',
+  tags: 'Tags',
+  redirectRules: 'Redirect rules',
+  splitVariants: 'Split variants',
+  redirectOptions: 'Redirect mode'
+};
+
+const formatValue = (field: EditableField, value: RevisionValue): string => {
+  if (value === null || value === '') return '(none)';
+  if ((field === 'expiresAt' || field === 'startsAt') && typeof value === 'string') return new Date(value).toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'redirectRules') {
+    return parseRedirectRules(value).map((rule, index) => rule.label || `Rule ${index + 1}`).join(', ');
+  }
+  if (field === 'splitVariants') {
+    const variants = parseSplitVariants(value);
+    return variants.map((variant, index) => `${getVariantLabel(variant, index)} ${getWeightShare(variant, variants)}%`).join(', ');
+  }
+  if (field === 'redirectOptions') {
+    const options = parseRedirectOptions(value);
+    return options ? describeRedirectOptions(options) : '(none)';
+  }
+  return value;
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ url, onRolledBack }) => {
+  const [error, setError] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const revisions = url.revisions || [];
+
+  if (revisions.length === 0) {
+    return <p className="text-gray-500 text-sm">No changes recorded for this link</p>;
+  }
+
+  const handleRollback = async (revisionId: string) => {
+    setError('');
+    setPendingId(revisionId);
+    try {
+      onRolledBack(await urlClient.rollbackUrl(url.id, revisionId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMessage);
+      logger.error('URL_ROLLBACK_FAILED', { id: url.id, revisionId, error: errorMessage });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div>
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+      <div className="max-h-48 overflow-y-auto space-y-2">
+        {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => {
+          const isCreation = revision.changes.every(change => change.oldValue === null);
+
+          return (
+            <div key={revision.id} className="text-xs bg-gray-50 p-2 rounded">
+              <div className="flex justify-between items-start gap-2 mb-1">
+                <div>
+                  <span className="font-medium">
+                    {isCreation ? 'Created' : revision.rollbackOf ? 'Rolled back' : 'Edited'}
+                  </span>
+                  <span className="text-gray-500">
+                    {' '}by {revision.username || 'system'} on {new Date(revision.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                {index < revisions.length - 1 && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => handleRollback(revision.id)}
+                    disabled={pendingId !== null}
+                    className="text-xs px-2 py-1 whitespace-nowrap"
+                  >
+                    {pendingId === revision.id ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                )}
+              </div>
+              {revision.changes.map((change) => (
+                <div key={change.field} className="text-gray-600 break-all">
+                  {FIELD_LABELS[change.field]}:{' '}
+                  {!isCreation && <span className="line-through">{formatValue(change.field, change.oldValue)}</span>}
+                  {!isCreation && ' → '}
+                  {formatValue(change.field, change.newValue)}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
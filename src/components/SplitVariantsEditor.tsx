@@ -0,0 +1,104 @@
+import React from 'react';
+import { Button } from './Button';
+import { createVariantId, getVariantLabel, getWeightShare, sanitizeSplitVariants } from '../utils/splitVariants';
+import { SplitVariant } from '../types';
+
+// Weights stay as typed until save so a cleared field doesn't snap to 0
+export interface VariantDraft {
+  id: string;
+  label: string;
+  destination: string;
+  weight: string;
+}
+
+export const toVariantDraft = (variant: SplitVariant): VariantDraft => ({
+  ...variant,
+  weight: String(variant.weight)
+});
+
+export const fromVariantDrafts = (drafts: VariantDraft[]): SplitVariant[] =>
+  sanitizeSplitVariants(drafts.map(draft => ({ ...draft, weight: draft.weight.trim() === '' ? NaN : Number(draft.weight) })));
+
+interface SplitVariantsEditorProps {
+  variants: VariantDraft[];
+  onChange: (variants: VariantDraft[]) => void;
+  // Pre-fills the first variant so the current destination becomes the control
+  defaultDestination: string;
+}
+
+export const SplitVariantsEditor: React.FC<SplitVariantsEditorProps> = ({ variants, onChange, defaultDestination }) => {
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const addVariant = () => {
+    const added = variants.length === 0
+      ? [{ id: createVariantId(), label: '', destination: defaultDestination, weight: '50' }, { id: createVariantId(), label: '', destination: '', weight: '50' }]
+      : [{ id: createVariantId(), label: '', destination: '', weight: '0' }];
+    onChange([...variants, ...added]);
+  };
+
+  // Shares are shown from whatever currently parses, so they update while typing
+  const parsed = variants.map(variant => ({ ...variant, weight: Number(variant.weight) || 0 }));
+  const inputClasses = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">A/B Split</label>
+      <p className="text-xs text-gray-500 mb-3">
+        Clicks that no redirect rule claims are spread across these destinations by weight.
+        Each visitor keeps the same variant while the weights stay unchanged.
+      </p>
+
+      {variants.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {variants.map((variant, index) => (
+            <div key={variant.id} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                value={variant.label}
+                onChange={(e) => updateVariant(index, { label: e.target.value })}
+                placeholder={getVariantLabel({ ...parsed[index], label: '' }, index)}
+                className={`col-span-3 ${inputClasses}`}
+              />
+              <input
+                type="url"
+                value={variant.destination}
+                onChange={(e) => updateVariant(index, { destination: e.target.value })}
+                placeholder="https://example.com/landing-b"
+                className={`col-span-5 ${inputClasses}`}
+              />
+              <input
+                type="number"
+                min={0}
+                value={variant.weight}
+                onChange={(e) => updateVariant(index, { weight: e.target.value })}
+                className={`col-span-2 ${inputClasses}`}
+              />
+              <span className="col-span-1 text-xs text-gray-500 text-right">
+                {getWeightShare(parsed[index], parsed)}%
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(variants.filter((_, i) => i !== index))}
+                className="col-span-1 text-xs text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="secondary" onClick={addVariant}>
+          {variants.length === 0 ? 'Split Traffic' : 'Add Variant'}
+        </Button>
+        {variants.length > 0 && (
+          <Button variant="secondary" onClick={() => onChange([])}>
+            Stop Splitting
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { BreakdownTable } from './BreakdownTable';
+import { getReferrerChannelBreakdown, getReferrerSourceBreakdown } from '../utils/analytics';
+import { ClickEvent } from '../types';
+
+interface TrafficSourcesProps {
+  clicks: ClickEvent[];
+  limit?: number;
+}
+
+export const TrafficSources: React.FC<TrafficSourcesProps> = ({ clicks, limit = 10 }) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Channels</h4>
+        <BreakdownTable rows={getReferrerChannelBreakdown(clicks)} emptyMessage="No clicks yet" limit={limit} />
+      </div>
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Top Sources</h4>
+        <BreakdownTable rows={getReferrerSourceBreakdown(clicks)} emptyMessage="No clicks yet" limit={limit} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { BreakdownTable } from './BreakdownTable';
+import { getBotBreakdown, getBrowserBreakdown, getDeviceBreakdown, getOsBreakdown } from '../utils/analytics';
+import { ClickEvent } from '../types';
+
+interface UserAgentBreakdownProps {
+  clicks: ClickEvent[];
+  limit?: number;
+}
+
+export const UserAgentBreakdown: React.FC<UserAgentBreakdownProps> = ({ clicks, limit = 5 }) => {
+  const sections = [
+    { title: 'Device', rows: getDeviceBreakdown(clicks) },
+    { title: 'Browser', rows: getBrowserBreakdown(clicks) },
+    { title: 'Operating System', rows: getOsBreakdown(clicks) },
+    { title: 'Traffic Type', rows: getBotBreakdown(clicks) }
+  ];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {sections.map((section) => (
+        <div key={section.title}>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">{section.title}</h4>
+          <BreakdownTable rows={section.rows} emptyMessage="No clicks yet" limit={limit} />
+        </div>
+      ))}
+    </div>
+  );
+};
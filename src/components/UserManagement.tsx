@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './Card';
+import { authClient } from '../services/authClient';
+import { getPolicy, getUserQuota } from '../utils/policy';
+import { logger } from '../utils/logger';
+import { PublicUser, ShortenedURL, UserRole, UserUpdate } from '../types';
+
+interface UserManagementProps {
+  urls: ShortenedURL[];
+}
+
+export const UserManagement: React.FC<UserManagementProps> = ({ urls }) => {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authClient.getUsers()
+      .then(setUsers)
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'));
+  }, []);
+
+  const handleUpdate = async (id: string, update: UserUpdate) => {
+    setError('');
+    try {
+      const updated = await authClient.updateUser(id, update);
+      setUsers(current => current.map(user => (user.id === id ? updated : user)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMessage);
+      logger.error('USER_UPDATE_FAILED', { userId: id, error: errorMessage });
+    }
+  };
+
+  const handleQuotaChange = (user: PublicUser, value: string) => {
+    const quota = value.trim() === '' ? null : Number(value);
+    if (quota !== (user.quota ?? null)) {
+      handleUpdate(user.id, { quota });
+    }
+  };
+
+  return (
+    <Card title="Users & Quotas" className="mt-8">
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">User</th>
+              <th className="py-2 pr-4 font-medium">Role</th>
+              <th className="py-2 pr-4 font-medium">Links</th>
+              <th className="py-2 pr-4 font-medium">Quota override</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => {
+              const owned = urls.filter(url => url.ownerId === user.id);
+              const roleQuota = getPolicy().roleQuotas[user.role] ?? getPolicy().maxActiveUrls;
+
+              return (
+                <tr key={user.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4">{user.username}</td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={user.role}
+                      onChange={(e) => handleUpdate(user.id, { role: e.target.value as UserRole })}
+                      className="px-2 py-1 border border-gray-300 rounded bg-white"
+                    >
+                      <option value="user">User</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {owned.filter(url => url.isActive).length} / {getUserQuota(user)} active, {owned.length} total
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      key={`${user.id}-${user.quota ?? ''}`}
+                      type="number"
+                      min={0}
+                      defaultValue={user.quota ?? ''}
+                      placeholder={`Role default (${roleQuota})`}
+                      onBlur={(e) => handleQuotaChange(user, e.target.value)}
+                      className="w-40 px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
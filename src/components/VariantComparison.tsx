@@ -0,0 +1,51 @@
+import React from 'react';
+import { getVariantComparison } from '../utils/analytics';
+import { getVariantLabel } from '../utils/splitVariants';
+import { ClickEvent, SplitVariant } from '../types';
+
+interface VariantComparisonProps {
+  clicks: ClickEvent[];
+  variants: SplitVariant[];
+}
+
+export const VariantComparison: React.FC<VariantComparisonProps> = ({ clicks, variants }) => {
+  const stats = getVariantComparison(clicks, variants);
+  const leader = stats.reduce((best, row) => (row.clicks > best.clicks ? row : best), stats[0]);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-1 pr-2 font-medium">Variant</th>
+            <th className="py-1 px-2 font-medium text-right">Clicks</th>
+            <th className="py-1 px-2 font-medium text-right">Share</th>
+            <th className="py-1 px-2 font-medium text-right">Target</th>
+            <th className="py-1 px-2 font-medium text-right">Mobile</th>
+            <th className="py-1 pl-2 font-medium">Top Source</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map((row, index) => (
+            <tr key={row.variant.id} className="border-b border-gray-100">
+              <td className="py-1 pr-2">
+                <div className="font-medium text-gray-800">
+                  {getVariantLabel(row.variant, index)}
+                  {row === leader && row.clicks > 0 && <span className="ml-1 text-xs text-green-700">most clicks</span>}
+                </div>
+                <div className="text-xs text-gray-500 truncate max-w-xs" title={row.variant.destination}>
+                  {row.variant.destination}
+                </div>
+              </td>
+              <td className="py-1 px-2 text-right">{row.clicks}</td>
+              <td className="py-1 px-2 text-right">{row.actualShare}%</td>
+              <td className="py-1 px-2 text-right text-gray-500">{row.expectedShare}%</td>
+              <td className="py-1 px-2 text-right">{row.clicks > 0 ? `${row.mobileShare}%` : '—'}</td>
+              <td className="py-1 pl-2 text-gray-700">{row.clicks > 0 ? row.topSource : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
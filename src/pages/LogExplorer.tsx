@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { Select } from '../components/Select';
+import { Button } from '../components/Button';
+import { useAuth } from '../components/AuthProvider';
+import { logger } from '../utils/logger';
+import { LOG_LEVELS } from '../utils/logTransports';
+import { downloadFile } from '../utils/download';
+import {
+  DEFAULT_LOG_FILTER,
+  exportLogsCsv,
+  exportLogsNdjson,
+  filterLogs,
+  getLogActions,
+  LOG_PAGE_SIZE
+} from '../utils/logExplorer';
+import { LogEvent, LogExplorerFilter, LogLevel } from '../types';
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  DEBUG: 'bg-gray-100 text-gray-700',
+  INFO: 'bg-blue-100 text-blue-800',
+  WARN: 'bg-yellow-100 text-yellow-800',
+  ERROR: 'bg-red-100 text-red-800'
+};
+
+export const LogExplorer: React.FC = () => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [logs, setLogs] = useState<LogEvent[]>([]);
+  const [filter, setFilter] = useState<LogExplorerFilter>(DEFAULT_LOG_FILTER);
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLogs();
+    logger.info('LOG_EXPLORER_PAGE_LOADED');
+  }, []);
+
+  const loadLogs = () => {
+    // Admins see system-wide activity, everyone else only their own
+    const storedLogs = logger.getStoredLogs();
+    setLogs(isAdmin ? storedLogs : storedLogs.filter(log => log.userId === user?.id));
+  };
+
+  const filteredLogs = filterLogs(logs, filter);
+  const pageCount = Math.max(1, Math.ceil(filteredLogs.length / LOG_PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageLogs = filteredLogs.slice(currentPage * LOG_PAGE_SIZE, (currentPage + 1) * LOG_PAGE_SIZE);
+
+  const updateFilter = (changes: Partial<LogExplorerFilter>) => {
+    setFilter({ ...filter, ...changes });
+    setPage(0);
+  };
+
+  const toggleLevel = (level: LogLevel) => {
+    updateFilter({
+      levels: filter.levels.includes(level)
+        ? filter.levels.filter(selected => selected !== level)
+        : [...filter.levels, level]
+    });
+  };
+
+  const handleExport = (format: 'ndjson' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      format === 'ndjson' ? exportLogsNdjson(filteredLogs) : exportLogsCsv(filteredLogs),
+      `logs-${date}.${format}`,
+      format === 'ndjson' ? 'application/x-ndjson' : 'text/csv'
+    );
+    logger.info('LOGS_EXPORTED', { format, count: filteredLogs.length });
+  };
+
+  const inputClasses = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Logs</h1>
+        <p className="text-gray-600">
+          {isAdmin ? 'All retained log events' : 'Log events from your account'}, newest first.
+        </p>
+      </div>
+
+      <Card title="Filters" className="mb-8">
+        <div className="flex flex-wrap gap-4 mb-4">
+          {LOG_LEVELS.map((level) => (
+            <label key={level} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={filter.levels.includes(level)}
+                onChange={() => toggleLevel(level)}
+              />
+              <span className={`text-xs px-2 py-1 rounded ${LEVEL_STYLES[level]}`}>{level}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select
+            label="Action"
+            value={filter.action}
+            onChange={(value) => updateFilter({ action: value })}
+            options={[
+              { value: '', label: 'All actions' },
+              ...getLogActions(logs).map(action => ({ value: action, label: action }))
+            ]}
+          />
+          <Input
+            label="Session ID"
+            value={filter.sessionId}
+            onChange={(value) => updateFilter({ sessionId: value })}
+            placeholder="session_..."
+          />
+          <Input
+            label="Search Details"
+            value={filter.search}
+            onChange={(value) => updateFilter({ search: value })}
+            placeholder="Any text in the event details"
+          />
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+            <input
+              type="datetime-local"
+              value={filter.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
+              className={inputClasses}
+            />
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+            <input
+              type="datetime-local"
+              value={filter.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
+              className={inputClasses}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="secondary" onClick={() => updateFilter(DEFAULT_LOG_FILTER)}>
+            Clear Filters
+          </Button>
+          <Button variant="secondary" onClick={loadLogs}>
+            Refresh
+          </Button>
+          <Button variant="secondary" onClick={() => handleExport('ndjson')} disabled={filteredLogs.length === 0}>
+            Export NDJSON
+          </Button>
+          <Button variant="secondary" onClick={() => handleExport('csv')} disabled={filteredLogs.length === 0}>
+            Export CSV
+          </Button>
+        </div>
+      </Card>
+
+      <Card title={`Events (${filteredLogs.length} of ${logs.length})`}>
+        {pageLogs.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No log events match the current filters</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {pageLogs.map((log) => (
+              <div key={log.id} className="py-2">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                  className="w-full flex items-center gap-3 text-left text-sm hover:bg-gray-50 rounded px-2 py-1"
+                >
+                  <span className={`text-xs px-2 py-1 rounded w-16 text-center ${LEVEL_STYLES[log.level]}`}>
+                    {log.level}
+                  </span>
+                  <span className="font-medium flex-1 truncate">{log.action}</span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {new Date(log.timestamp).toLocaleString()}
+                  </span>
+                  <span className="text-gray-400">{expandedId === log.id ? '−' : '+'}</span>
+                </button>
+                {expandedId === log.id && (
+                  <div className="mt-2 ml-2 text-xs">
+                    <div className="flex flex-wrap gap-4 text-gray-500 mb-2">
+                      <span>Session: {log.sessionId}</span>
+                      <span>User: {log.userId || 'none'}</span>
+                      <span>ID: {log.id}</span>
+                    </div>
+                    <pre className="bg-gray-50 p-3 rounded overflow-x-auto">
+                      {JSON.stringify(log.details, null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between mt-4">
+            <Button
+              variant="secondary"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">Page {currentPage + 1} of {pageCount}</span>
+            <Button
+              variant="secondary"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Input } from '../components/Input';
+import { Button } from '../components/Button';
+import { Card } from '../components/Card';
+import { useAuth } from '../components/AuthProvider';
+
+export const SignIn: React.FC = () => {
+  const { signIn, register } = useAuth();
+  const [mode, setMode] = useState<'sign-in' | 'register'>('sign-in');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      if (mode === 'sign-in') {
+        await signIn(username.trim(), password);
+      } else {
+        await register(username.trim(), password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">URL Shortener</h1>
+        <p className="text-gray-600">
+          Sign in to create and manage your short URLs. The first account created becomes the administrator.
+        </p>
+      </div>
+
+      <Card title={mode === 'sign-in' ? 'Sign In' : 'Create Account'}>
+        <form onSubmit={handleSubmit}>
+          <Input
+            label="Username"
+            value={username}
+            onChange={setUsername}
+            required
+          />
+          <Input
+            label="Password"
+            value={password}
+            onChange={setPassword}
+            type="password"
+            required
+          />
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" disabled={isLoading} className="w-full">
+            {isLoading ? 'Please wait...' : mode === 'sign-in' ? 'Sign In' : 'Create Account'}
+          </Button>
+        </form>
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'sign-in' ? 'register' : 'sign-in');
+            setError('');
+          }}
+          className="mt-4 text-sm text-blue-600 hover:text-blue-800"
+        >
+          {mode === 'sign-in' ? 'Need an account? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </Card>
+    </div>
+  );
+};
@@ -1,42 +1,115 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '../components/Card';
-import { urlService } from '../services/urlService';
+import { BreakdownTable } from '../components/BreakdownTable';
+import { UserAgentBreakdown } from '../components/UserAgentBreakdown';
+import { VariantComparison } from '../components/VariantComparison';
+import { TrafficSources } from '../components/TrafficSources';
+import { ClickChart } from '../components/ClickChart';
+import { DateRangePicker } from '../components/DateRangePicker';
+import { QRCodePanel } from '../components/QRCodePanel';
+import { RevisionHistory } from '../components/RevisionHistory';
+import { UserManagement } from '../components/UserManagement';
+import { useAuth, useUsernames } from '../components/AuthProvider';
+import { urlClient } from '../services/urlClient';
 import { logger } from '../utils/logger';
-import { ShortenedURL, LogEvent } from '../types';
+import { getLinkStatus, LINK_STATUS_LABELS } from '../utils/linkStatus';
+import { getCampaignBreakdown, getRedirectRuleBreakdown } from '../utils/analytics';
+import {
+  bucketClicks,
+  filterClicksByRange,
+  getPercentChange,
+  getPreviousRange,
+  isInRange,
+  pickGranularity,
+  resolveDateRange
+} from '../utils/timeSeries';
+import { ShortenedURL, LogEvent, DateRangeFilter, DateRange } from '../types';
+
+const DEFAULT_FILTER: DateRangeFilter = {
+  preset: 'all',
+  customStart: '',
+  customEnd: '',
+  granularity: 'day',
+  compare: false
+};
 
 export const Statistics: React.FC = () => {
+  const { user } = useAuth();
+  const usernames = useUsernames();
+  const isAdmin = user?.role === 'admin';
   const [urls, setUrls] = useState<ShortenedURL[]>([]);
   const [logs, setLogs] = useState<LogEvent[]>([]);
   const [selectedUrl, setSelectedUrl] = useState<ShortenedURL | null>(null);
+  const [filter, setFilter] = useState<DateRangeFilter>(DEFAULT_FILTER);
 
   useEffect(() => {
     loadData();
     logger.info('STATISTICS_PAGE_LOADED');
   }, []);
 
-  const loadData = () => {
-    const allUrls = urlService.getAllUrls();
-    const allLogs = logger.getStoredLogs();
-    setUrls(allUrls);
-    setLogs(allLogs);
+  // Clicks and edits from other tabs show up without a reload
+  useEffect(() => urlClient.subscribe(loadData), []);
+
+  const loadData = async () => {
+    // Admins see system-wide activity, everyone else only their own
+    const storedLogs = logger.getStoredLogs();
+    setLogs(isAdmin ? storedLogs : storedLogs.filter(log => log.userId === user?.id));
+    try {
+      const allUrls = await urlClient.getAllUrls();
+      setUrls(allUrls);
+      setSelectedUrl(current => current && (allUrls.find(url => url.id === current.id) || null));
+    } catch (error) {
+      logger.error('STATISTICS_LOAD_FAILED', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+
+  const earliest = [
+    ...urls.map(url => url.createdAt),
+    ...logs.map(log => new Date(log.timestamp))
+  ].reduce((min, date) => (date < min ? date : min), new Date());
+  const range = resolveDateRange(filter, earliest);
+  const previousRange = getPreviousRange(range);
+  const granularity = pickGranularity(range, filter.granularity);
+
+  // Every card below works off these range-filtered views
+  const restrictToRange = (dateRange: DateRange) => urls.map(url => {
+    const clicks = filterClicksByRange(url.clicks, dateRange);
+    return { ...url, clicks, clickCount: clicks.length };
+  });
+  const rangedUrls = restrictToRange(range);
+  const rangedLogs = logs.filter(log => isInRange(new Date(log.timestamp), range));
+
+  const previousPeriod = {
+    urlsCreated: urls.filter(url => isInRange(url.createdAt, previousRange)).length,
+    clicks: restrictToRange(previousRange).reduce((total, url) => total + url.clickCount, 0),
+    logs: logs.filter(log => isInRange(new Date(log.timestamp), previousRange)).length
+  };
+
+  const getUrlsCreated = () => {
+    return urls.filter(url => isInRange(url.createdAt, range)).length;
   };
 
   const getTotalClicks = () => {
-    return urls.reduce((total, url) => total + url.clickCount, 0);
+    return rangedUrls.reduce((total, url) => total + url.clickCount, 0);
   };
 
   const getActiveUrls = () => {
-    return urls.filter(url => url.isActive && url.expiresAt > new Date()).length;
+    return urls.filter(url => getLinkStatus(url) === 'active').length;
+  };
+
+  const getAllClicks = () => {
+    return rangedUrls.flatMap(url => url.clicks);
   };
 
   const getTopUrls = () => {
-    return [...urls]
+    return [...rangedUrls]
       .sort((a, b) => b.clickCount - a.clickCount)
       .slice(0, 5);
   };
 
   const getRecentActivity = () => {
-    return logs
+    return rangedLogs
       .filter(log => log.action.includes('CLICK') || log.action.includes('URL'))
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       .slice(0, 10);
@@ -47,21 +120,48 @@ export const Statistics: React.FC = () => {
     return d.toLocaleString();
   };
 
+  const renderDelta = (current: number, previous: number) => {
+    if (!filter.compare) return null;
+
+    const change = getPercentChange(current, previous);
+    const diff = current - previous;
+    return (
+      <div className={`text-xs mt-1 ${diff > 0 ? 'text-green-600' : diff < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+        {diff > 0 ? '+' : ''}{diff}
+        {change !== null && ` (${change > 0 ? '+' : ''}${change}%)`} vs previous
+      </div>
+    );
+  };
+
+  const selectedClicks = selectedUrl
+    ? filterClicksByRange(selectedUrl.clicks, range)
+    : [];
+
   return (
     <div className="max-w-6xl mx-auto p-6">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Statistics & Analytics</h1>
         <p className="text-gray-600">
-          Comprehensive analytics for your shortened URLs and system activity.
+          {isAdmin
+            ? 'Comprehensive analytics for every user\'s shortened URLs and system activity.'
+            : 'Comprehensive analytics for your shortened URLs and activity.'}
         </p>
       </div>
 
+      <Card className="mb-8">
+        <DateRangePicker value={filter} onChange={setFilter} />
+        <div className="mt-3 text-xs text-gray-500">
+          Showing {formatDate(range.start)} - {formatDate(range.end)}
+        </div>
+      </Card>
+
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <Card>
           <div className="text-center">
-            <div className="text-3xl font-bold text-blue-600">{urls.length}</div>
-            <div className="text-sm text-gray-600">Total URLs</div>
+            <div className="text-3xl font-bold text-blue-600">{getUrlsCreated()}</div>
+            <div className="text-sm text-gray-600">URLs Created</div>
+            {renderDelta(getUrlsCreated(), previousPeriod.urlsCreated)}
           </div>
         </Card>
         <Card>
@@ -74,16 +174,29 @@ export const Statistics: React.FC = () => {
           <div className="text-center">
             <div className="text-3xl font-bold text-purple-600">{getTotalClicks()}</div>
             <div className="text-sm text-gray-600">Total Clicks</div>
+            {renderDelta(getTotalClicks(), previousPeriod.clicks)}
           </div>
         </Card>
         <Card>
           <div className="text-center">
-            <div className="text-3xl font-bold text-orange-600">{logs.length}</div>
+            <div className="text-3xl font-bold text-orange-600">{rangedLogs.length}</div>
             <div className="text-sm text-gray-600">Log Events</div>
+            {renderDelta(rangedLogs.length, previousPeriod.logs)}
           </div>
         </Card>
       </div>
 
+      {/* Clicks Over Time */}
+      <Card title="Clicks Over Time" className="mb-8">
+        <ClickChart
+          buckets={bucketClicks(getAllClicks(), range, granularity)}
+          previousBuckets={filter.compare
+            ? bucketClicks(restrictToRange(previousRange).flatMap(url => url.clicks), previousRange, granularity)
+            : undefined}
+          granularity={granularity}
+        />
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Top Performing URLs */}
         <Card title="Top Performing URLs">
@@ -95,7 +208,7 @@ export const Statistics: React.FC = () => {
                 <div
                   key={url.id}
                   className="flex items-center justify-between p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100"
-                  onClick={() => setSelectedUrl(url)}
+                  onClick={() => setSelectedUrl(urls.find(u => u.id === url.id) || url)}
                 >
                     <div className="flex-1">
                     <div className="font-mono text-sm font-medium">/{url.shortCode}</div>
@@ -139,10 +252,28 @@ export const Statistics: React.FC = () => {
         </Card>
       </div>
 
+      {/* Traffic Sources */}
+      <Card title="Traffic Sources" className="mt-8">
+        <TrafficSources clicks={getAllClicks()} />
+      </Card>
+
+      {/* Campaign Traffic */}
+      <Card title="Campaign Traffic (UTM / ref)" className="mt-8">
+        <BreakdownTable
+          rows={getCampaignBreakdown(getAllClicks())}
+          emptyMessage="No clicks with UTM or ref parameters yet"
+        />
+      </Card>
+
+      {/* Devices & Browsers */}
+      <Card title="Devices & Browsers" className="mt-8">
+        <UserAgentBreakdown clicks={getAllClicks()} />
+      </Card>
+
       {/* URL Details Modal */}
       {selectedUrl && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg max-w-2xl w-full max-h-96 overflow-y-auto">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="p-6">
               <div className="flex justify-between items-start mb-4">
                 <h3 className="text-lg font-semibold">URL Details</h3>
@@ -167,19 +298,35 @@ export const Statistics: React.FC = () => {
                   <div className="text-sm break-all text-blue-600">{selectedUrl.originalUrl}</div>
                 </div>
 
+                {isAdmin && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Owner</label>
+                    <div className="text-sm">
+                      {selectedUrl.ownerId ? usernames[selectedUrl.ownerId] || 'Unknown' : 'None'}
+                    </div>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Total Clicks</label>
-                    <div className="text-2xl font-bold text-purple-600">{selectedUrl.clickCount}</div>
+                    <div className="text-2xl font-bold text-purple-600">
+                      {selectedUrl.clickCount}
+                      {selectedUrl.maxClicks !== undefined && (
+                        <span className="text-sm font-normal text-gray-500"> / {selectedUrl.maxClicks} max</span>
+                      )}
+                    </div>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Status</label>
                     <div className={`inline-block px-2 py-1 rounded text-sm ${
-                      selectedUrl.isActive && selectedUrl.expiresAt > new Date()
+                      getLinkStatus(selectedUrl) === 'active'
                         ? 'bg-green-100 text-green-800'
-                        : 'bg-red-100 text-red-800'
+                        : getLinkStatus(selectedUrl) === 'scheduled'
+                          ? 'bg-blue-100 text-blue-800'
+                          : 'bg-red-100 text-red-800'
                     }`}>
-                      {selectedUrl.isActive && selectedUrl.expiresAt > new Date() ? 'Active' : 'Expired'}
+                      {LINK_STATUS_LABELS[getLinkStatus(selectedUrl)]}
                     </div>
                   </div>
                 </div>
@@ -189,17 +336,93 @@ export const Statistics: React.FC = () => {
                     <label className="block text-sm font-medium text-gray-700">Created</label>
                     <div className="text-sm">{formatDate(selectedUrl.createdAt)}</div>
                   </div>
+                  {selectedUrl.startsAt && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Goes Live</label>
+                      <div className="text-sm">{formatDate(selectedUrl.startsAt)}</div>
+                    </div>
+                  )}
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Expires</label>
                     <div className="text-sm">{formatDate(selectedUrl.expiresAt)}</div>
                   </div>
                 </div>
 
-                {selectedUrl.clicks.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Clicks Over Time</label>
+                  <ClickChart
+                    buckets={bucketClicks(selectedClicks, range, granularity)}
+                    previousBuckets={filter.compare
+                      ? bucketClicks(filterClicksByRange(selectedUrl.clicks, previousRange), previousRange, granularity)
+                      : undefined}
+                    granularity={granularity}
+                    height={140}
+                  />
+                </div>
+
+                {selectedClicks.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Traffic Sources</label>
+                    <TrafficSources clicks={selectedClicks} limit={5} />
+                  </div>
+                )}
+
+                {selectedClicks.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Devices & Browsers</label>
+                    <UserAgentBreakdown clicks={selectedClicks} limit={3} />
+                  </div>
+                )}
+
+                {selectedClicks.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Campaign Traffic</label>
+                    <BreakdownTable
+                      rows={getCampaignBreakdown(selectedClicks)}
+                      emptyMessage="No clicks with UTM or ref parameters"
+                      limit={5}
+                    />
+                  </div>
+                )}
+
+                {!!selectedUrl.splitVariants?.length && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">A/B Split</label>
+                    <VariantComparison clicks={selectedClicks} variants={selectedUrl.splitVariants} />
+                  </div>
+                )}
+
+                {selectedClicks.length > 0 && (selectedUrl.redirectRules?.length || selectedClicks.some(click => click.ruleId)) && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Redirect Rules</label>
+                    <BreakdownTable
+                      rows={getRedirectRuleBreakdown(selectedClicks, selectedUrl.redirectRules)}
+                      emptyMessage="No clicks yet"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">History</label>
+                  <RevisionHistory
+                    url={selectedUrl}
+                    onRolledBack={(url) => {
+                      setSelectedUrl(url);
+                      loadData();
+                    }}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">QR Code</label>
+                  <QRCodePanel url={selectedUrl} />
+                </div>
+
+                {selectedClicks.length > 0 && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Recent Clicks</label>
                     <div className="max-h-32 overflow-y-auto space-y-1">
-                      {selectedUrl.clicks.slice(-10).reverse().map((click) => (
+                      {selectedClicks.slice(-10).reverse().map((click) => (
                         <div key={click.id} className="text-xs bg-gray-50 p-2 rounded">
                           <div className="flex justify-between">
                             <span>{formatDate(click.timestamp)}</span>
@@ -219,18 +442,21 @@ export const Statistics: React.FC = () => {
         </div>
       )}
 
+      {isAdmin && <UserManagement urls={urls} />}
+
       {/* System Logs */}
       <Card title="System Logs" className="mt-8">
         <div className="max-h-64 overflow-y-auto">
-          {logs.length === 0 ? (
+          {rangedLogs.length === 0 ? (
             <p className="text-gray-500 text-center py-4">No logs available</p>
           ) : (
             <div className="space-y-1">
-              {logs.slice(-50).reverse().map((log) => (
+              {rangedLogs.slice(-50).reverse().map((log) => (
                 <div key={log.id} className="flex items-start gap-3 p-2 text-xs hover:bg-gray-50 rounded">
                   <div className={`w-1.5 h-1.5 rounded-full mt-1.5 ${
                     log.level === 'ERROR' ? 'bg-red-500' :
-                    log.level === 'WARN' ? 'bg-yellow-500' : 'bg-blue-500'
+                    log.level === 'WARN' ? 'bg-yellow-500' :
+                    log.level === 'DEBUG' ? 'bg-gray-400' : 'bg-blue-500'
                   }`} />
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
@@ -249,6 +475,9 @@ export const Statistics: React.FC = () => {
             </div>
           )}
         </div>
+        <Link to="/logs" className="inline-block mt-3 text-sm text-blue-600 hover:text-blue-800">
+          Open the log explorer →
+        </Link>
       </Card>
 
       <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
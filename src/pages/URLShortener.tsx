@@ -1,28 +1,87 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Input } from '../components/Input';
+import { Select } from '../components/Select';
 import { Button } from '../components/Button';
 import { Card } from '../components/Card';
-import { urlService } from '../services/urlService';
-import { validateUrl, validateShortCode, validateExpiryMinutes } from '../utils/validation';
+import { BulkImportExport } from '../components/BulkImportExport';
+import { QRCodePanel } from '../components/QRCodePanel';
+import { LinkEditor } from '../components/LinkEditor';
+import { RedirectOptionsFields } from '../components/RedirectOptionsFields';
+import { useAuth, useUsernames } from '../components/AuthProvider';
+import { urlClient } from '../services/urlClient';
+import { DuplicateURLError } from '../services/urlService';
+import {
+  validateUrl,
+  validateShortCode,
+  validateExpiryMinutes,
+  validateMaxClicks,
+  validateTags,
+  validateRedirectOptions,
+  validateStartsAt,
+  validatePrelaunchUrl
+} from '../utils/validation';
+import { countsTowardQuota, getLinkStatus, LINK_STATUS_LABELS } from '../utils/linkStatus';
+import { filterAndSortUrls, getAllTags, readLinkFilter, SORT_LABELS, writeLinkFilter } from '../utils/linkFilters';
+import { parseTagInput } from '../utils/tags';
+import { DEFAULT_REDIRECT_OPTIONS, isDefaultRedirectOptions } from '../utils/redirectOptions';
+import { appendUtmParams } from '../utils/queryParams';
 import { logger } from '../utils/logger';
-import { ShortenedURL } from '../types';
+import { formatMinutes, getPolicy, getUserQuota } from '../utils/policy';
+import {
+  DuplicateHandling,
+  LinkListFilter,
+  LinkSortOption,
+  QueryPassthroughMode,
+  RedirectOptions,
+  ShortenedURL,
+  UtmParams
+} from '../types';
+
+const EMPTY_UTM: UtmParams = { source: '', medium: '', campaign: '' };
 
 export const URLShortener: React.FC = () => {
+  const policy = getPolicy();
+  const { user } = useAuth();
+  const usernames = useUsernames();
+  const quota = user ? getUserQuota(user) : policy.maxActiveUrls;
   const [originalUrl, setOriginalUrl] = useState('');
   const [customShortCode, setCustomShortCode] = useState('');
-  const [expiryMinutes, setExpiryMinutes] = useState(30);
+  const [expiryMinutes, setExpiryMinutes] = useState(policy.defaultExpiryMinutes);
+  const [password, setPassword] = useState('');
+  const [maxClicks, setMaxClicks] = useState('');
+  const [queryPassthrough, setQueryPassthrough] = useState<QueryPassthroughMode | ''>('');
+  const [utm, setUtm] = useState<UtmParams>(EMPTY_UTM);
+  const [tags, setTags] = useState('');
+  const [redirectOptions, setRedirectOptions] = useState<RedirectOptions>(DEFAULT_REDIRECT_OPTIONS);
+  const [startsAt, setStartsAt] = useState('');
+  const [prelaunchUrl, setPrelaunchUrl] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [urls, setUrls] = useState<ShortenedURL[]>([]);
+  const [qrUrl, setQrUrl] = useState<ShortenedURL | null>(null);
+  const [editingUrl, setEditingUrl] = useState<ShortenedURL | null>(null);
+  const [duplicate, setDuplicate] = useState<ShortenedURL | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filter = readLinkFilter(searchParams);
+  const visibleUrls = filterAndSortUrls(urls, filter);
+  const allTags = getAllTags(urls);
 
   useEffect(() => {
     loadUrls();
     logger.info('URL_SHORTENER_PAGE_LOADED');
   }, []);
 
-  const loadUrls = () => {
-    const allUrls = urlService.getAllUrls();
-    setUrls(allUrls);
+  // Links created, edited or clicked in other tabs show up without a reload
+  useEffect(() => urlClient.subscribe(loadUrls), []);
+
+  const loadUrls = async () => {
+    try {
+      const allUrls = await urlClient.getAllUrls();
+      setUrls(allUrls);
+    } catch (error) {
+      logger.error('URL_LIST_LOAD_FAILED', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
   };
 
   const validateForm = (): boolean => {
@@ -45,10 +104,73 @@ export const URLShortener: React.FC = () => {
       newErrors.expiryMinutes = expiryValidation.errors[0];
     }
 
+    if (maxClicks) {
+      const maxClicksValidation = validateMaxClicks(Number(maxClicks));
+      if (!maxClicksValidation.isValid) {
+        newErrors.maxClicks = maxClicksValidation.errors[0];
+      }
+    }
+
+    if (startsAt) {
+      const startsAtValidation = validateStartsAt(new Date(startsAt));
+      if (!startsAtValidation.isValid) {
+        newErrors.startsAt = startsAtValidation.errors[0];
+      }
+
+      if (prelaunchUrl) {
+        const prelaunchValidation = validatePrelaunchUrl(prelaunchUrl);
+        if (!prelaunchValidation.isValid) {
+          newErrors.prelaunchUrl = prelaunchValidation.errors[0];
+        }
+      }
+    }
+
+    const tagsValidation = validateTags(parseTagInput(tags));
+    if (!tagsValidation.isValid) {
+      newErrors.tags = tagsValidation.errors[0];
+    }
+
+    const redirectOptionsValidation = validateRedirectOptions(redirectOptions);
+    if (!redirectOptionsValidation.isValid) {
+      newErrors.redirectOptions = redirectOptionsValidation.errors[0];
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // Replacing rather than pushing keeps typing in the search box out of the back-button history
+  const updateFilter = (changes: Partial<LinkListFilter>) => {
+    setSearchParams(writeLinkFilter({ ...filter, ...changes }), { replace: true });
+  };
+
+  const hasUtm = Object.values(utm).some(value => value.trim());
+
+  const getDestinationUrl = (): string => {
+    if (!hasUtm) return originalUrl;
+    try {
+      return appendUtmParams(originalUrl, utm);
+    } catch {
+      return originalUrl;
+    }
+  };
+
+  const resetForm = () => {
+    setOriginalUrl('');
+    setCustomShortCode('');
+    setExpiryMinutes(policy.defaultExpiryMinutes);
+    setPassword('');
+    setMaxClicks('');
+    setQueryPassthrough('');
+    setUtm(EMPTY_UTM);
+    setTags('');
+    setRedirectOptions(DEFAULT_REDIRECT_OPTIONS);
+    setStartsAt('');
+    setPrelaunchUrl('');
+    setErrors({});
+    setDuplicate(null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -57,23 +179,35 @@ export const URLShortener: React.FC = () => {
       return;
     }
 
+    await createUrl('offer');
+  };
+
+  const createUrl = async (onDuplicate: DuplicateHandling) => {
     setIsLoading(true);
+    setDuplicate(null);
 
     try {
-      const shortenedUrl = urlService.shortenUrl(
-        originalUrl,
+      const shortenedUrl = await urlClient.shortenUrl(
+        getDestinationUrl(),
         customShortCode || undefined,
-        expiryMinutes
+        expiryMinutes,
+        {
+          password: password || undefined,
+          maxClicks: maxClicks ? Number(maxClicks) : undefined,
+          queryPassthrough: queryPassthrough || undefined,
+          tags: parseTagInput(tags),
+          // Untouched defaults are left unset so each redirect path keeps its own default behaviour
+          redirectOptions: isDefaultRedirectOptions(redirectOptions) ? undefined : redirectOptions,
+          startsAt: startsAt ? new Date(startsAt) : undefined,
+          prelaunchUrl: startsAt && prelaunchUrl ? prelaunchUrl : undefined,
+          onDuplicate
+        }
       );
 
-      // Reset form
-      setOriginalUrl('');
-      setCustomShortCode('');
-      setExpiryMinutes(30);
-      setErrors({});
+      resetForm();
 
       // Reload URLs
-      loadUrls();
+      await loadUrls();
 
       logger.info('URL_CREATION_SUCCESS', { 
         shortCode: shortenedUrl.shortCode,
@@ -81,6 +215,11 @@ export const URLShortener: React.FC = () => {
       });
 
     } catch (error) {
+      if (error instanceof DuplicateURLError) {
+        setDuplicate(error.existing);
+        logger.info('URL_DUPLICATE_DETECTED', { shortCode: error.existing.shortCode });
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       setErrors({ submit: errorMessage });
       logger.error('URL_CREATION_FAILED', { error: errorMessage });
@@ -89,9 +228,13 @@ export const URLShortener: React.FC = () => {
     }
   };
 
-  const handleDelete = (id: string) => {
-    if (urlService.deleteUrl(id)) {
-      loadUrls();
+  const handleDelete = async (id: string) => {
+    try {
+      if (await urlClient.deleteUrl(id)) {
+        await loadUrls();
+      }
+    } catch (error) {
+      logger.error('URL_DELETE_FAILED', { id, error: error instanceof Error ? error.message : 'Unknown error' });
     }
   };
 
@@ -124,7 +267,8 @@ export const URLShortener: React.FC = () => {
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">URL Shortener</h1>
         <p className="text-gray-600">
-          Create short URLs with custom codes and expiry times. Maximum 5 concurrent URLs allowed.
+          Create short URLs with custom codes and expiry times. You can have {quota} active URLs at a time,
+          each lasting up to {formatMinutes(policy.maxExpiryMinutes)}.
         </p>
       </div>
 
@@ -151,12 +295,135 @@ export const URLShortener: React.FC = () => {
           <Input
             label="Expiry Time (Minutes)"
             value={expiryMinutes.toString()}
-            onChange={(value) => setExpiryMinutes(parseInt(value) || 30)}
+            onChange={(value) => setExpiryMinutes(parseInt(value) || policy.defaultExpiryMinutes)}
             type="number"
             error={errors.expiryMinutes}
             required
           />
 
+          <Input
+            label="Go Live At (Optional)"
+            value={startsAt}
+            onChange={setStartsAt}
+            type="datetime-local"
+            error={errors.startsAt}
+          />
+          {startsAt && (
+            <>
+              <p className="-mt-2 mb-4 text-xs text-gray-500">
+                The link stays offline until then, and the expiry time counts from that moment.
+              </p>
+              <Input
+                label="Pre-launch URL (Optional)"
+                value={prelaunchUrl}
+                onChange={setPrelaunchUrl}
+                type="url"
+                placeholder="Leave empty to show a countdown page"
+                error={errors.prelaunchUrl}
+              />
+            </>
+          )}
+
+          <Input
+            label="Password (Optional)"
+            value={password}
+            onChange={setPassword}
+            type="password"
+            placeholder="Leave empty for a public link"
+          />
+
+          <Input
+            label="Click Limit (Optional)"
+            value={maxClicks}
+            onChange={setMaxClicks}
+            type="number"
+            placeholder="Unlimited - use 1 for a single-use link"
+            error={errors.maxClicks}
+          />
+
+          <Input
+            label="Tags (Optional)"
+            value={tags}
+            onChange={setTags}
+            placeholder="marketing, q3-launch"
+            error={errors.tags}
+          />
+
+          <Select
+            label="Query String Passthrough"
+            value={queryPassthrough}
+            onChange={(value) => setQueryPassthrough(value as QueryPassthroughMode | '')}
+            options={[
+              { value: '', label: 'Off - ignore incoming query parameters' },
+              { value: 'incoming-wins', label: 'Merge - incoming parameters win on conflicts' },
+              { value: 'destination-wins', label: 'Merge - destination parameters win on conflicts' }
+            ]}
+          />
+
+          <RedirectOptionsFields
+            options={redirectOptions}
+            onChange={setRedirectOptions}
+            error={errors.redirectOptions}
+          />
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">UTM Campaign (Optional)</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Input
+                label="Source"
+                value={utm.source}
+                onChange={(value) => setUtm({ ...utm, source: value })}
+                placeholder="newsletter"
+              />
+              <Input
+                label="Medium"
+                value={utm.medium}
+                onChange={(value) => setUtm({ ...utm, medium: value })}
+                placeholder="email"
+              />
+              <Input
+                label="Campaign"
+                value={utm.campaign}
+                onChange={(value) => setUtm({ ...utm, campaign: value })}
+                placeholder="spring_launch"
+              />
+            </div>
+            {hasUtm && originalUrl && (
+              <p className="mt-2 text-xs text-gray-500 break-all">
+                Final destination: {getDestinationUrl()}
+              </p>
+            )}
+          </div>
+
+          {duplicate && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 text-yellow-900 rounded">
+              <p className="text-sm mb-2">
+                You already have an active short link for this page:{' '}
+                <span className="font-mono break-all">{duplicate.shortUrl}</span>
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="secondary"
+                  onClick={() => {
+                    copyToClipboard(duplicate.shortUrl);
+                    resetForm();
+                  }}
+                  className="text-xs px-3 py-1"
+                >
+                  Copy existing link
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => createUrl('create')}
+                  disabled={isLoading}
+                  className="text-xs px-3 py-1"
+                >
+                  Create another anyway
+                </Button>
+              </div>
+            </div>
+          )}
+
           {errors.submit && (
             <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
               {errors.submit}
@@ -173,66 +440,212 @@ export const URLShortener: React.FC = () => {
         </form>
       </Card>
 
-      <Card title={`Your URLs (${urls.filter(url => url.isActive).length}/5 active)`}>
+      <BulkImportExport onImported={loadUrls} />
+
+      <Card
+        title={`${user?.role === 'admin' ? 'All URLs' : 'Your URLs'} (${
+          urls.filter(url => countsTowardQuota(url) && url.ownerId === user?.id).length
+        }/${quota} active)`}
+      >
+        {urls.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <Input
+              label="Search"
+              value={filter.search}
+              onChange={(value) => updateFilter({ search: value })}
+              placeholder="Code, destination or tag"
+            />
+            <Select
+              label="Status"
+              value={filter.status}
+              onChange={(value) => updateFilter({ status: value as LinkListFilter['status'] })}
+              options={[
+                { value: 'all', label: 'All' },
+                ...Object.entries(LINK_STATUS_LABELS).map(([value, label]) => ({ value, label }))
+              ]}
+            />
+            <Select
+              label="Tag"
+              value={filter.tag}
+              onChange={(value) => updateFilter({ tag: value })}
+              options={[
+                { value: '', label: 'Any tag' },
+                // Keep a bookmarked tag selectable even if no link carries it any more
+                ...Array.from(new Set([...allTags, filter.tag].filter(Boolean))).map(tag => ({ value: tag, label: tag }))
+              ]}
+            />
+            <Select
+              label="Sort"
+              value={filter.sort}
+              onChange={(value) => updateFilter({ sort: value as LinkSortOption })}
+              options={Object.entries(SORT_LABELS).map(([value, label]) => ({ value, label }))}
+            />
+          </div>
+        )}
+
         {urls.length === 0 ? (
           <p className="text-gray-500 text-center py-8">No URLs created yet</p>
+        ) : visibleUrls.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No URLs match the current filters</p>
         ) : (
           <div className="space-y-4">
-            {urls.map((url) => (
-              <div
-                key={url.id}
-                className={`p-4 border rounded-lg ${
-                  url.isActive && url.expiresAt > new Date()
-                    ? 'border-green-200 bg-green-50'
-                    : 'border-red-200 bg-red-50'
-                }`}
-              >
-                <div className="flex justify-between items-start mb-2">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
-                        {url.shortCode}
-                      </span>
-                      <span className={`text-xs px-2 py-1 rounded ${
-                        url.isActive && url.expiresAt > new Date()
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-red-100 text-red-800'
-                      }`}>
-                        {url.isActive && url.expiresAt > new Date() ? 'Active' : 'Expired'}
-                      </span>
+            {visibleUrls.map((url) => {
+              const status = getLinkStatus(url);
+
+              return (
+                <div
+                  key={url.id}
+                  className={`p-4 border rounded-lg ${
+                    status === 'active'
+                      ? 'border-green-200 bg-green-50'
+                      : status === 'scheduled'
+                        ? 'border-blue-200 bg-blue-50'
+                        : 'border-red-200 bg-red-50'
+                  }`}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                          {url.shortCode}
+                        </span>
+                        <span className={`text-xs px-2 py-1 rounded ${
+                          status === 'active'
+                            ? 'bg-green-100 text-green-800'
+                            : status === 'scheduled'
+                              ? 'bg-blue-100 text-blue-800'
+                              : 'bg-red-100 text-red-800'
+                        }`}>
+                          {LINK_STATUS_LABELS[status]}
+                        </span>
+                        {url.password && (
+                          <span className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700">
+                            Password
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 break-all mb-1">
+                        {url.originalUrl}
+                      </p>
+                      {url.tags && url.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-1">
+                          {url.tags.map((tag) => (
+                            <button
+                              key={tag}
+                              type="button"
+                              onClick={() => updateFilter({ tag })}
+                              className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex items-center gap-4 text-xs text-gray-500">
+                        <span>
+                          Clicks: {url.clickCount}
+                          {url.maxClicks !== undefined && ` / ${url.maxClicks}`}
+                        </span>
+                        {status === 'scheduled' && url.startsAt && (
+                          <span>Goes live in: {formatTimeRemaining(url.startsAt)}</span>
+                        )}
+                        <span>Expires: {formatTimeRemaining(url.expiresAt)}</span>
+                        <span>Created: {url.createdAt.toLocaleDateString()}</span>
+                        {user?.role === 'admin' && (
+                          <span>Owner: {url.ownerId ? usernames[url.ownerId] || 'Unknown' : 'None'}</span>
+                        )}
+                      </div>
                     </div>
-                    <p className="text-sm text-gray-600 break-all mb-1">
-                      {url.originalUrl}
-                    </p>
-                    <div className="flex items-center gap-4 text-xs text-gray-500">
-                      <span>Clicks: {url.clickCount}</span>
-                      <span>Expires: {formatTimeRemaining(url.expiresAt)}</span>
-                      <span>Created: {url.createdAt.toLocaleDateString()}</span>
+                    <div className="flex gap-2 ml-4">
+                      <Button
+                        variant="secondary"
+                        onClick={() => copyToClipboard(url.shortUrl)}
+                        className="text-xs px-3 py-1"
+                      >
+                        Copy
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        onClick={() => setQrUrl(url)}
+                        className="text-xs px-3 py-1"
+                      >
+                        QR
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        onClick={() => setEditingUrl(url)}
+                        className="text-xs px-3 py-1"
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="danger"
+                        onClick={() => handleDelete(url.id)}
+                        className="text-xs px-3 py-1"
+                      >
+                        Delete
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex gap-2 ml-4">
-                    <Button
-                      variant="secondary"
-                      onClick={() => copyToClipboard(url.shortUrl)}
-                      className="text-xs px-3 py-1"
-                    >
-                      Copy
-                    </Button>
-                    <Button
-                      variant="danger"
-                      onClick={() => handleDelete(url.id)}
-                      className="text-xs px-3 py-1"
-                    >
-                      Delete
-                    </Button>
-                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </Card>
 
+      {qrUrl && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold">QR Code</h3>
+                  <p className="text-sm text-gray-500 break-all">{qrUrl.shortUrl}</p>
+                </div>
+                <button
+                  onClick={() => setQrUrl(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <QRCodePanel url={qrUrl} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {editingUrl && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex justify-between items-start mb-4">
+                <h3 className="text-lg font-semibold">Edit /{editingUrl.shortCode}</h3>
+                <button
+                  onClick={() => setEditingUrl(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <LinkEditor
+                url={editingUrl}
+                onSaved={() => {
+                  setEditingUrl(null);
+                  loadUrls();
+                }}
+                onCancel={() => setEditingUrl(null)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
         <h3 className="font-semibold text-blue-900 mb-2">Compliance Notice</h3>
         <p className="text-sm text-blue-800">
@@ -0,0 +1,25 @@
+import { getSessionToken } from '../utils/session';
+
+export const apiRequest = async (
+  apiUrl: string,
+  path: string,
+  init: RequestInit = {},
+  allowedStatuses: number[] = [404]
+): Promise<Response> => {
+  const token = getSessionToken();
+  const response = await fetch(`${apiUrl.replace(/\/$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers
+    }
+  });
+
+  if (!response.ok && !allowedStatuses.includes(response.status)) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  return response;
+};
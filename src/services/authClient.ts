@@ -0,0 +1,117 @@
+import { AuthClient, PublicUser, UserUpdate } from '../types';
+import { UserService, userService } from './userService';
+import { apiRequest } from './apiRequest';
+import { getSessionToken, setSessionToken } from '../utils/session';
+import { validateCredentials } from '../utils/validation';
+
+const reviveUser = (user: PublicUser): PublicUser => ({ ...user, createdAt: new Date(user.createdAt) });
+
+export class LocalAuthClient implements AuthClient {
+  constructor(private users: UserService) {}
+
+  private async requireAdmin() {
+    const user = await this.getCurrentUser();
+    if (user?.role !== 'admin') {
+      throw new Error('Only admins can manage users');
+    }
+  }
+
+  async getCurrentUser(): Promise<PublicUser | null> {
+    await this.users.ready;
+    const token = getSessionToken();
+    return token ? this.users.getUser(token) : null;
+  }
+
+  async signIn(username: string, password: string): Promise<PublicUser> {
+    await this.users.ready;
+    const user = await this.users.signIn(username, password);
+    if (!user) {
+      throw new Error('Invalid username or password');
+    }
+    setSessionToken(user.id);
+    return user;
+  }
+
+  async register(username: string, password: string): Promise<PublicUser> {
+    const validation = validateCredentials(username, password);
+    if (!validation.isValid) {
+      throw new Error(validation.errors[0]);
+    }
+
+    await this.users.ready;
+    const user = await this.users.register(username, password);
+    setSessionToken(user.id);
+    return user;
+  }
+
+  async signOut(): Promise<void> {
+    setSessionToken(null);
+  }
+
+  async getUsers(): Promise<PublicUser[]> {
+    await this.requireAdmin();
+    return this.users.getAllUsers();
+  }
+
+  async updateUser(id: string, update: UserUpdate): Promise<PublicUser> {
+    await this.requireAdmin();
+    return this.users.updateUser(id, update);
+  }
+}
+
+export class HttpAuthClient implements AuthClient {
+  constructor(private apiUrl: string) {}
+
+  private async startSession(path: string, username: string, password: string): Promise<PublicUser> {
+    const response = await apiRequest(this.apiUrl, path, {
+      method: 'POST',
+      body: JSON.stringify({ username, password })
+    }, []);
+    const { token, user } = await response.json();
+    setSessionToken(token);
+    return reviveUser(user);
+  }
+
+  async getCurrentUser(): Promise<PublicUser | null> {
+    if (!getSessionToken()) return null;
+
+    const response = await apiRequest(this.apiUrl, '/api/auth/me', {}, [401]);
+    if (!response.ok) {
+      // The server forgets sessions when it restarts
+      setSessionToken(null);
+      return null;
+    }
+    return reviveUser(await response.json());
+  }
+
+  signIn(username: string, password: string): Promise<PublicUser> {
+    return this.startSession('/api/auth/sign-in', username, password);
+  }
+
+  register(username: string, password: string): Promise<PublicUser> {
+    return this.startSession('/api/auth/register', username, password);
+  }
+
+  async signOut(): Promise<void> {
+    await apiRequest(this.apiUrl, '/api/auth/sign-out', { method: 'POST' }, [401]).catch(() => undefined);
+    setSessionToken(null);
+  }
+
+  async getUsers(): Promise<PublicUser[]> {
+    const response = await apiRequest(this.apiUrl, '/api/users', {}, []);
+    const users: PublicUser[] = await response.json();
+    return users.map(reviveUser);
+  }
+
+  async updateUser(id: string, update: UserUpdate): Promise<PublicUser> {
+    const response = await apiRequest(this.apiUrl, `/api/users/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update)
+    }, []);
+    return reviveUser(await response.json());
+  }
+}
+
+export const authClient: AuthClient = process.env.REACT_APP_API_URL
+  ? new HttpAuthClient(process.env.REACT_APP_API_URL)
+  : new LocalAuthClient(userService);
@@ -0,0 +1,116 @@
+import {
+  NewerSchemaError,
+  parseStoredJson,
+  SCHEMA_VERSION,
+  toPersistedStore,
+  upgradeStoredUrls
+} from './persistenceSchema';
+
+const storedUrl = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id: 'url_1',
+  originalUrl: 'https://example.com/page',
+  shortCode: 'abc123',
+  shortUrl: 'http://localhost/abc123',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  expiresAt: '2024-01-02T00:00:00.000Z',
+  isActive: true,
+  clickCount: 0,
+  clicks: [],
+  ...overrides
+});
+
+describe('upgradeStoredUrls', () => {
+  it('migrates a legacy bare array and asks for a rewrite', () => {
+    const legacy = storedUrl({ clicks: undefined, tags: ['Launch', 'launch', ' promo '] });
+    delete legacy.clicks;
+
+    const { urls, quarantined, report, needsSave } = upgradeStoredUrls([legacy], 'memory');
+
+    expect(quarantined).toEqual([]);
+    expect(needsSave).toBe(true);
+    expect(report).toMatchObject({ fromVersion: 1, toVersion: SCHEMA_VERSION, loaded: 1, quarantined: 0 });
+    expect(report.applied).toHaveLength(2);
+    expect(urls[0].clicks).toEqual([]);
+    expect(urls[0].revisions).toEqual([]);
+    expect(urls[0].tags).toEqual(['launch', 'promo']);
+    expect(urls[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('backfills redirect rule and split variant lists for version 2 data', () => {
+    const rule = { id: 'rule_1', destination: 'https://m.example.com/', conditions: [] };
+    const { urls, needsSave, report } = upgradeStoredUrls(
+      { schemaVersion: 2, urls: [storedUrl({ revisions: [], tags: [] }), storedUrl({ id: 'url_2', redirectRules: [rule] })] },
+      'memory'
+    );
+
+    expect(needsSave).toBe(true);
+    expect(report).toMatchObject({ fromVersion: 2, toVersion: 3, applied: ['3: Backfill redirect rule and split variant lists'] });
+    expect(urls[0]).toMatchObject({ redirectRules: [], splitVariants: [] });
+    expect(urls[0].redirectOptions).toBeUndefined();
+    expect(urls[1].redirectRules).toEqual([rule]);
+  });
+
+  it('loads current data without rewriting it', () => {
+    const { urls, needsSave, report } = upgradeStoredUrls(
+      { schemaVersion: SCHEMA_VERSION, urls: [storedUrl({ revisions: [], tags: [] })] },
+      'memory'
+    );
+
+    expect(urls).toHaveLength(1);
+    expect(needsSave).toBe(false);
+    expect(report.applied).toEqual([]);
+  });
+
+  it('quarantines invalid and duplicate records and keeps the rest', () => {
+    const { urls, quarantined, needsSave } = upgradeStoredUrls(
+      {
+        schemaVersion: SCHEMA_VERSION,
+        urls: [
+          storedUrl(),
+          storedUrl({ id: 'url_2', expiresAt: 'not a date' }),
+          storedUrl({ shortCode: 'other' }),
+          'not an object'
+        ]
+      },
+      'memory'
+    );
+
+    expect(urls.map(url => url.id)).toEqual(['url_1']);
+    expect(quarantined.map(entry => entry.reasons)).toEqual([
+      ['expiresAt is not a valid date'],
+      ['Duplicate id'],
+      ['Record is not an object']
+    ]);
+    expect(quarantined[0].record).toMatchObject({ id: 'url_2', expiresAt: 'not a date' });
+    expect(needsSave).toBe(true);
+  });
+
+  it('quarantines a payload it does not recognize', () => {
+    const { urls, quarantined, needsSave } = upgradeStoredUrls(parseStoredJson('{not json'), 'memory');
+
+    expect(urls).toEqual([]);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0].record).toBe('{not json');
+    expect(needsSave).toBe(true);
+  });
+
+  it('loads data from a newer schema without migrating or rewriting it', () => {
+    const newer = storedUrl({ futureField: 'kept' });
+    const { urls, needsSave, report } = upgradeStoredUrls({ schemaVersion: SCHEMA_VERSION + 1, urls: [newer] }, 'memory');
+
+    expect(urls).toHaveLength(1);
+    expect(needsSave).toBe(false);
+    expect(report).toMatchObject({ fromVersion: SCHEMA_VERSION + 1, toVersion: SCHEMA_VERSION + 1, applied: [] });
+  });
+});
+
+describe('toPersistedStore', () => {
+  it('stamps the current schema version', () => {
+    expect(toPersistedStore([])).toEqual({ schemaVersion: SCHEMA_VERSION, urls: [] });
+    expect(toPersistedStore([], 1).schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  it('refuses to overwrite data from a newer schema', () => {
+    expect(() => toPersistedStore([], SCHEMA_VERSION + 1)).toThrow(NewerSchemaError);
+  });
+});
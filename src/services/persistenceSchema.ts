@@ -0,0 +1,226 @@
+import {
+  MigrationReport,
+  PersistedUrlStore,
+  QuarantinedRecord,
+  SchemaMigration,
+  ShortenedURL,
+  StorageBackend,
+  StoreUpgradeResult
+} from '../types';
+import { logger } from '../utils/logger';
+import { normalizeTags } from '../utils/tags';
+
+// Bump together with a new entry in MIGRATIONS whenever the persisted shape of a link changes
+export const SCHEMA_VERSION = 3;
+const LEGACY_SCHEMA_VERSION = 1;
+
+// Run in order against every record older than their version
+export const MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 2,
+    description: 'Backfill click, revision and tag lists',
+    migrate: (record) => ({
+      ...record,
+      // Only missing lists are filled in; anything else malformed is left for validation to catch
+      clicks: record.clicks ?? [],
+      revisions: record.revisions ?? [],
+      tags: Array.isArray(record.tags) && record.tags.every((tag: unknown) => typeof tag === 'string')
+        ? normalizeTags(record.tags)
+        : record.tags ?? []
+    })
+  },
+  {
+    version: 3,
+    description: 'Backfill redirect rule and split variant lists',
+    // Missing redirect options and launch times already mean the defaults, so only the lists are filled in
+    migrate: (record) => ({
+      ...record,
+      redirectRules: record.redirectRules ?? [],
+      splitVariants: record.splitVariants ?? []
+    })
+  }
+];
+
+// JSON round-trips turn dates into strings, so rebuild them on the way back in
+export const reviveUrl = (url: ShortenedURL): ShortenedURL => ({
+  ...url,
+  createdAt: new Date(url.createdAt),
+  expiresAt: new Date(url.expiresAt),
+  startsAt: url.startsAt !== undefined ? new Date(url.startsAt) : undefined,
+  clicks: (url.clicks || []).map(click => ({
+    ...click,
+    timestamp: new Date(click.timestamp)
+  })),
+  revisions: url.revisions?.map(revision => ({
+    ...revision,
+    timestamp: new Date(revision.timestamp)
+  }))
+});
+
+export class NewerSchemaError extends Error {
+  constructor(readonly schemaVersion: number) {
+    super(`Stored links use schema version ${schemaVersion}, newer than this app supports (${SCHEMA_VERSION}); changes are not saved`);
+    this.name = 'NewerSchemaError';
+  }
+}
+
+// Writing over a newer release's data would stamp it with this version and lose the fields this one doesn't know
+export const assertSchemaWritable = (storedVersion: number) => {
+  if (storedVersion > SCHEMA_VERSION) {
+    throw new NewerSchemaError(storedVersion);
+  }
+};
+
+export const toPersistedStore = (urls: ShortenedURL[], storedVersion: number = SCHEMA_VERSION): PersistedUrlStore => {
+  assertSchemaWritable(storedVersion);
+  return { schemaVersion: SCHEMA_VERSION, urls };
+};
+
+// Unparseable text is handed on as-is so the upgrade can quarantine it rather than throw
+export const parseStoredJson = (stored: string): unknown => {
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return stored;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || typeof value === 'number' || value instanceof Date) &&
+  !isNaN(new Date(value).getTime());
+
+const checkTimestamped = (items: unknown, field: string): string[] => {
+  if (!Array.isArray(items)) return [`${field} is not a list`];
+  const invalid = items.filter(item => !isRecord(item) || typeof item.id !== 'string' || !isValidDate(item.timestamp));
+  return invalid.length > 0 ? [`${field} has ${invalid.length} entries without an id or valid timestamp`] : [];
+};
+
+export const validateStoredUrl = (record: unknown): string[] => {
+  if (!isRecord(record)) return ['Record is not an object'];
+
+  const problems: string[] = [];
+  ['id', 'originalUrl', 'shortCode', 'shortUrl'].forEach(field => {
+    if (typeof record[field] !== 'string' || !record[field]) problems.push(`${field} is missing`);
+  });
+  ['createdAt', 'expiresAt'].forEach(field => {
+    if (!isValidDate(record[field])) problems.push(`${field} is not a valid date`);
+  });
+  if (record.startsAt !== undefined && !isValidDate(record.startsAt)) problems.push('startsAt is not a valid date');
+  if (record.prelaunchUrl !== undefined && typeof record.prelaunchUrl !== 'string') problems.push('prelaunchUrl is not a string');
+  if (typeof record.isActive !== 'boolean') problems.push('isActive is not a boolean');
+  if (typeof record.clickCount !== 'number' || record.clickCount < 0) problems.push('clickCount is not a valid count');
+
+  problems.push(...checkTimestamped(record.clicks, 'clicks'));
+  if (record.revisions !== undefined) problems.push(...checkTimestamped(record.revisions, 'revisions'));
+  if (record.tags !== undefined && (!Array.isArray(record.tags) || record.tags.some((tag: unknown) => typeof tag !== 'string'))) {
+    problems.push('tags is not a list of strings');
+  }
+  if (record.redirectRules !== undefined && (
+    !Array.isArray(record.redirectRules) ||
+    record.redirectRules.some((rule: unknown) => !isRecord(rule) || typeof rule.id !== 'string' || typeof rule.destination !== 'string')
+  )) {
+    problems.push('redirectRules is not a list of rules');
+  }
+  if (record.splitVariants !== undefined && (
+    !Array.isArray(record.splitVariants) ||
+    record.splitVariants.some((variant: unknown) =>
+      !isRecord(variant) || typeof variant.id !== 'string' || typeof variant.destination !== 'string' || typeof variant.weight !== 'number')
+  )) {
+    problems.push('splitVariants is not a list of variants');
+  }
+  if (record.redirectOptions !== undefined && (!isRecord(record.redirectOptions) || typeof record.redirectOptions.mode !== 'string')) {
+    problems.push('redirectOptions is not a valid set of options');
+  }
+  return problems;
+};
+
+const quarantine = (record: unknown, schemaVersion: number, reasons: string[]): QuarantinedRecord => ({
+  id: `quarantine_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  quarantinedAt: new Date(),
+  schemaVersion,
+  reasons,
+  record
+});
+
+const readEnvelope = (payload: unknown): { version: number; records: unknown[] } | null => {
+  if (Array.isArray(payload)) return { version: LEGACY_SCHEMA_VERSION, records: payload };
+  if (isRecord(payload) && Number.isInteger(payload.schemaVersion) && Array.isArray(payload.urls)) {
+    return { version: payload.schemaVersion, records: payload.urls };
+  }
+  return null;
+};
+
+const logUpgrade = (report: MigrationReport, quarantined: QuarantinedRecord[]) => {
+  quarantined.forEach(entry => {
+    logger.warn('STORAGE_RECORD_QUARANTINED', {
+      backend: report.backend,
+      quarantineId: entry.id,
+      schemaVersion: entry.schemaVersion,
+      reasons: entry.reasons
+    });
+  });
+  logger.info('STORAGE_SCHEMA_MIGRATED', { ...report });
+};
+
+// Migrates, validates and revives a stored payload; one bad record is quarantined without losing the rest
+export const upgradeStoredUrls = (payload: unknown, backend: StorageBackend): StoreUpgradeResult => {
+  const envelope = readEnvelope(payload);
+  if (!envelope) {
+    const quarantined = [quarantine(payload, 0, ['Stored data is not in a recognized format'])];
+    const report: MigrationReport = { backend, fromVersion: 0, toVersion: SCHEMA_VERSION, applied: [], loaded: 0, quarantined: 1 };
+    logUpgrade(report, quarantined);
+    return { urls: [], quarantined, report, needsSave: true };
+  }
+
+  const { version, records } = envelope;
+  // Data written by a newer release is loaded as far as it validates; adapters then refuse to save over it
+  const pending = MIGRATIONS
+    .filter(migration => migration.version > version)
+    .sort((a, b) => a.version - b.version);
+  if (version > SCHEMA_VERSION) {
+    logger.warn('STORAGE_SCHEMA_NEWER_THAN_APP', { backend, schemaVersion: version, supportedVersion: SCHEMA_VERSION });
+  }
+
+  const urls: ShortenedURL[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach(record => {
+    try {
+      const migrated = isRecord(record)
+        ? pending.reduce((current, migration) => migration.migrate(current), record)
+        : record;
+      const problems = validateStoredUrl(migrated);
+      if (problems.length === 0 && seenIds.has((migrated as ShortenedURL).id)) {
+        problems.push('Duplicate id');
+      }
+
+      if (problems.length > 0) {
+        quarantined.push(quarantine(record, version, problems));
+        return;
+      }
+      seenIds.add((migrated as ShortenedURL).id);
+      urls.push(reviveUrl(migrated as ShortenedURL));
+    } catch (error) {
+      quarantined.push(quarantine(record, version, [
+        `Migration failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ]));
+    }
+  });
+
+  const report: MigrationReport = {
+    backend,
+    fromVersion: version,
+    toVersion: Math.max(version, SCHEMA_VERSION),
+    applied: records.length > 0 ? pending.map(migration => `${migration.version}: ${migration.description}`) : [],
+    loaded: urls.length,
+    quarantined: quarantined.length
+  };
+  const needsSave = version <= SCHEMA_VERSION && (quarantined.length > 0 || (pending.length > 0 && records.length > 0));
+  if (needsSave) logUpgrade(report, quarantined);
+
+  return { urls, quarantined, report, needsSave };
+};
@@ -0,0 +1,35 @@
+import { createShortCodeGenerator, SequentialGenerator } from './shortCodeGenerators';
+
+describe('SequentialGenerator', () => {
+  it('continues after the codes it made before a restart', () => {
+    const generator = new SequentialGenerator();
+    ['000000', '000001', '00000a'].forEach(code => generator.observe(code));
+
+    expect(generator.generate(6)).toBe('00000b');
+  });
+
+  it('is not moved on by custom codes', () => {
+    const generator = new SequentialGenerator();
+    ['000000', 'launch', 'zzzzzz', 'promo', 'summer-sale', '0day'].forEach(code => generator.observe(code));
+
+    expect(generator.generate(6)).toBe('000001');
+  });
+
+  it('follows codes that outgrew their padding only in sequence', () => {
+    const generator = new SequentialGenerator('ab', 3);
+    ['aaa', 'aab', 'aba', 'abb', 'baa', 'bab', 'bba', 'bbb', 'baaa'].forEach(code => generator.observe(code));
+    expect(generator.generate(3)).toBe('baab');
+
+    const fresh = new SequentialGenerator('ab', 3);
+    fresh.observe('bbb');
+    expect(fresh.generate(3)).toBe('aaa');
+  });
+
+  it('takes the configured length as the shortest code it made', () => {
+    const generator = createShortCodeGenerator({ strategy: 'sequential', length: 4 });
+    generator.observe('005');
+    generator.observe('0005');
+
+    expect(generator.generate(4)).toBe('0006');
+  });
+});
@@ -0,0 +1,103 @@
+import { ShortCodeGenerator, ShortCodeGeneratorConfig } from '../types';
+import { logger } from '../utils/logger';
+
+export const SHORT_CODE_ALPHABETS: Record<string, string> = {
+  base62: '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  // No 0/O/o, 1/l/I or 5/S, which are easy to misread when a code is printed or read aloud
+  unambiguous: '2346789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRTUVWXYZ'
+};
+
+const DEFAULT_LENGTH = 6;
+const MIN_LENGTH = 3;
+const MAX_LENGTH = 20;
+
+export class CryptoRandomGenerator implements ShortCodeGenerator {
+  readonly strategy = 'random';
+
+  constructor(readonly alphabet: string = SHORT_CODE_ALPHABETS.base62) {}
+
+  generate(length: number): string {
+    // Rejection sampling: bytes past the largest multiple of the alphabet size would bias the result
+    const limit = 256 - (256 % this.alphabet.length);
+    let result = '';
+
+    while (result.length < length) {
+      const bytes = crypto.getRandomValues(new Uint8Array(length * 2));
+      for (const byte of Array.from(bytes)) {
+        if (byte < limit && result.length < length) {
+          result += this.alphabet[byte % this.alphabet.length];
+        }
+      }
+    }
+
+    return result;
+  }
+
+  observe() {}
+}
+
+export class SequentialGenerator implements ShortCodeGenerator {
+  readonly strategy = 'sequential';
+  private counter = 0;
+
+  constructor(
+    readonly alphabet: string = SHORT_CODE_ALPHABETS.base62,
+    private minLength: number = DEFAULT_LENGTH
+  ) {}
+
+  generate(length: number): string {
+    let value = this.counter++;
+    let result = '';
+
+    do {
+      result = this.alphabet[value % this.alphabet.length] + result;
+      value = Math.floor(value / this.alphabet.length);
+    } while (value > 0);
+
+    return result.padStart(length, this.alphabet[0]);
+  }
+
+  // Move past codes this generator made so a restart doesn't replay the sequence from zero.
+  // Its codes are padded with the alphabet's first character, so a custom code like "launch" can't
+  // jump the sequence; a code grown past its padding only counts when it is the very next one
+  observe(shortCode: string) {
+    if (shortCode.length < this.minLength) return;
+
+    let value = 0;
+    for (const char of shortCode) {
+      const digit = this.alphabet.indexOf(char);
+      if (digit === -1) return;
+      value = value * this.alphabet.length + digit;
+    }
+
+    const padded = shortCode[0] === this.alphabet[0];
+    if (Number.isSafeInteger(value) && value >= this.counter && (padded || value === this.counter)) {
+      this.counter = value + 1;
+    }
+  }
+}
+
+const resolveAlphabet = (alphabet?: string): string => {
+  if (!alphabet) return SHORT_CODE_ALPHABETS.base62;
+  if (SHORT_CODE_ALPHABETS[alphabet]) return SHORT_CODE_ALPHABETS[alphabet];
+
+  const unique = Array.from(new Set(alphabet)).join('');
+  if (unique.length >= 2 && /^[a-zA-Z0-9_-]+$/.test(unique)) {
+    return unique;
+  }
+
+  logger.warn('SHORT_CODE_ALPHABET_INVALID', { alphabet });
+  return SHORT_CODE_ALPHABETS.base62;
+};
+
+export const createShortCodeGenerator = (config: Partial<ShortCodeGeneratorConfig> = {}): ShortCodeGenerator => {
+  const alphabet = resolveAlphabet(config.alphabet);
+  return config.strategy === 'sequential'
+    ? new SequentialGenerator(alphabet, resolveShortCodeLength(config.length))
+    : new CryptoRandomGenerator(alphabet);
+};
+
+export const resolveShortCodeLength = (length?: number): number =>
+  length !== undefined && Number.isInteger(length)
+    ? Math.min(MAX_LENGTH, Math.max(MIN_LENGTH, length))
+    : DEFAULT_LENGTH;
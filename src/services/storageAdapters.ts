@@ -0,0 +1,160 @@
+import { QuarantinedRecord, ShortenedURL, StorageAdapter, StorageBackend } from '../types';
+import { assertSchemaWritable, parseStoredJson, SCHEMA_VERSION, toPersistedStore, upgradeStoredUrls } from './persistenceSchema';
+
+export const STORAGE_KEY = 'urlShortener_urls';
+const DB_NAME = 'urlShortener';
+const DB_VERSION = 2;
+const STORE_NAME = 'urls';
+const META_STORE_NAME = 'meta';
+const QUARANTINE_STORE_NAME = 'quarantine';
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'memory';
+  private snapshot: string;
+  private storedVersion = SCHEMA_VERSION;
+  readonly quarantined: QuarantinedRecord[] = [];
+
+  constructor(initialUrls: unknown = []) {
+    this.snapshot = JSON.stringify(initialUrls);
+  }
+
+  async load(): Promise<ShortenedURL[]> {
+    const { urls, quarantined, report, needsSave } = upgradeStoredUrls(parseStoredJson(this.snapshot), this.backend);
+    this.storedVersion = report.fromVersion;
+    this.quarantined.push(...quarantined);
+    if (needsSave) await this.save(urls);
+    return urls;
+  }
+
+  async save(urls: ShortenedURL[]): Promise<void> {
+    // Serialize so callers can't mutate what has been "persisted"
+    this.snapshot = JSON.stringify(toPersistedStore(urls, this.storedVersion));
+  }
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'localStorage';
+  private storedVersion = SCHEMA_VERSION;
+
+  constructor(private key: string = STORAGE_KEY) {}
+
+  private get quarantineKey(): string {
+    return `${this.key}_quarantine`;
+  }
+
+  async load(): Promise<ShortenedURL[]> {
+    const stored = localStorage.getItem(this.key);
+    if (!stored) return [];
+
+    const { urls, quarantined, report, needsSave } = upgradeStoredUrls(parseStoredJson(stored), this.backend);
+    this.storedVersion = report.fromVersion;
+    if (quarantined.length > 0) {
+      const existing: QuarantinedRecord[] = JSON.parse(localStorage.getItem(this.quarantineKey) || '[]');
+      localStorage.setItem(this.quarantineKey, JSON.stringify([...existing, ...quarantined]));
+    }
+    if (needsSave) await this.save(urls);
+    return urls;
+  }
+
+  async save(urls: ShortenedURL[]): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(toPersistedStore(urls, this.storedVersion)));
+  }
+}
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private storedVersion = SCHEMA_VERSION;
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+            db.createObjectStore(META_STORE_NAME);
+          }
+          if (!db.objectStoreNames.contains(QUARANTINE_STORE_NAME)) {
+            db.createObjectStore(QUARANTINE_STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Records live one per row here, so the schema version is kept alongside them in the meta store
+  private async readAll(): Promise<{ schemaVersion?: number; urls: unknown[] }> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readonly');
+      const urlsRequest = transaction.objectStore(STORE_NAME).getAll();
+      const versionRequest = transaction.objectStore(META_STORE_NAME).get('schemaVersion');
+      transaction.oncomplete = () => resolve({ schemaVersion: versionRequest.result, urls: urlsRequest.result });
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async addToQuarantine(entries: QuarantinedRecord[]): Promise<void> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(QUARANTINE_STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(QUARANTINE_STORE_NAME);
+      entries.forEach(entry => store.put(entry));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async load(): Promise<ShortenedURL[]> {
+    const { schemaVersion, urls: records } = await this.readAll();
+    const { urls, quarantined, report, needsSave } = upgradeStoredUrls(
+      // Databases from before version 2 have no meta store entry and hold version 1 records
+      schemaVersion === undefined ? records : { schemaVersion, urls: records },
+      this.backend
+    );
+    this.storedVersion = report.fromVersion;
+
+    if (quarantined.length > 0) await this.addToQuarantine(quarantined);
+    if (needsSave) await this.save(urls);
+    return urls;
+  }
+
+  async save(urls: ShortenedURL[]): Promise<void> {
+    assertSchemaWritable(this.storedVersion);
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      store.clear();
+      urls.forEach(url => store.put(url));
+      transaction.objectStore(META_STORE_NAME).put(SCHEMA_VERSION, 'schemaVersion');
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export const createStorageAdapter = (backend?: string): StorageAdapter => {
+  switch (backend) {
+    case 'memory':
+      return new MemoryStorageAdapter();
+    case 'indexedDB':
+      if (typeof indexedDB !== 'undefined') {
+        return new IndexedDBStorageAdapter();
+      }
+      break;
+  }
+
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageAdapter();
+  }
+  return new MemoryStorageAdapter();
+};
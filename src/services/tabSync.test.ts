@@ -0,0 +1,94 @@
+import { ClickEvent, LinkRevision, ShortenedURL } from '../types';
+import { isSameUrlState, mergeUrl } from './tabSync';
+
+const click = (id: string, time: number): ClickEvent => ({
+  id,
+  timestamp: new Date(time),
+  userAgent: 'test',
+  ipAddress: '',
+  referrer: '',
+  location: ''
+});
+
+const revision = (id: string, time: number): LinkRevision => ({
+  id,
+  timestamp: new Date(time),
+  changes: []
+});
+
+const makeUrl = (overrides: Partial<ShortenedURL> = {}): ShortenedURL => ({
+  id: 'url_1',
+  originalUrl: 'https://example.com/',
+  shortCode: 'abc123',
+  shortUrl: 'http://localhost/abc123',
+  createdAt: new Date(0),
+  expiresAt: new Date(1000000),
+  isActive: true,
+  clickCount: 0,
+  clicks: [],
+  revisions: [],
+  ...overrides
+});
+
+describe('mergeUrl', () => {
+  it('keeps the clicks from both sides in timestamp order', () => {
+    const shared = click('click_a', 100);
+    const local = makeUrl({ clicks: [shared, click('click_c', 300)], clickCount: 2 });
+    const remote = makeUrl({ clicks: [click('click_b', 200), shared], clickCount: 2 });
+
+    const merged = mergeUrl(local, remote);
+
+    expect(merged.clicks.map(item => item.id)).toEqual(['click_a', 'click_b', 'click_c']);
+    expect(merged.clickCount).toBe(3);
+  });
+
+  it('carries over counts from before clicks were stored individually', () => {
+    const local = makeUrl({ clicks: [click('click_a', 100)], clickCount: 5 });
+    const remote = makeUrl({ clicks: [click('click_b', 200)], clickCount: 1 });
+
+    expect(mergeUrl(local, remote).clickCount).toBe(6);
+  });
+
+  it('takes edits from the side with the latest revision', () => {
+    const local = makeUrl({ originalUrl: 'https://old.example/', revisions: [revision('rev_1', 100)] });
+    const remote = makeUrl({ originalUrl: 'https://new.example/', revisions: [revision('rev_1', 100), revision('rev_2', 200)] });
+
+    expect(mergeUrl(local, remote).originalUrl).toBe('https://new.example/');
+    expect(mergeUrl(remote, local).originalUrl).toBe('https://new.example/');
+    expect(mergeUrl(local, remote).revisions?.map(item => item.id)).toEqual(['rev_1', 'rev_2']);
+  });
+
+  it('breaks revision time ties the same way in every tab', () => {
+    const a = makeUrl({ originalUrl: 'https://a.example/', revisions: [revision('rev_a', 100)] });
+    const b = makeUrl({ originalUrl: 'https://b.example/', revisions: [revision('rev_b', 100)] });
+
+    expect(mergeUrl(a, b).originalUrl).toBe('https://b.example/');
+    expect(isSameUrlState([mergeUrl(a, b)], [mergeUrl(b, a)])).toBe(true);
+  });
+
+  it('keeps a link deactivated by either side when neither edited it', () => {
+    const local = makeUrl({ isActive: true });
+    const remote = makeUrl({ isActive: false });
+
+    expect(mergeUrl(local, remote).isActive).toBe(false);
+    expect(mergeUrl(remote, local).isActive).toBe(false);
+  });
+
+  it('lets a newer edit reactivate a link', () => {
+    const local = makeUrl({ isActive: false });
+    const remote = makeUrl({ isActive: true, revisions: [revision('rev_1', 100)] });
+
+    expect(mergeUrl(local, remote).isActive).toBe(true);
+  });
+});
+
+describe('isSameUrlState', () => {
+  it('ignores list order and key order', () => {
+    const first = makeUrl();
+    const second = makeUrl({ id: 'url_2', shortCode: 'def456' });
+    const reordered = Object.fromEntries(Object.entries(first).reverse()) as unknown as ShortenedURL;
+
+    expect(isSameUrlState([first, second], [second, reordered])).toBe(true);
+    expect(isSameUrlState([first], [{ ...first, clickCount: 1 }])).toBe(false);
+  });
+});
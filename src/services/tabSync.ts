@@ -0,0 +1,92 @@
+import { ClickEvent, LinkRevision, ShortenedURL, SyncChannel } from '../types';
+
+const CHANNEL_NAME = 'urlShortener_sync';
+
+const compareStrings = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+// Both tabs must end up with the same order, so equal timestamps fall back to the id
+const unionById = <T extends { id: string; timestamp: Date }>(a: T[], b: T[]): T[] => {
+  const merged = new Map(a.map(item => [item.id, item]));
+  b.forEach(item => {
+    if (!merged.has(item.id)) merged.set(item.id, item);
+  });
+  return Array.from(merged.values())
+    .sort((x, y) => x.timestamp.getTime() - y.timestamp.getTime() || compareStrings(x.id, y.id));
+};
+
+// Key order differs between freshly built and merged objects, so compare with sorted keys
+const toStableJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => compareStrings(a, b)))
+      : entry
+  );
+
+export const isSameUrlState = (a: ShortenedURL[], b: ShortenedURL[]): boolean => {
+  const byId = (x: ShortenedURL, y: ShortenedURL) => compareStrings(x.id, y.id);
+  return toStableJson([...a].sort(byId)) === toStableJson([...b].sort(byId));
+};
+
+const lastRevisionKey = (url: ShortenedURL): [number, string] => {
+  const revisions = unionById(url.revisions || [], []);
+  const last = revisions[revisions.length - 1];
+  return last ? [last.timestamp.getTime(), last.id] : [0, ''];
+};
+
+// Clicks only ever get added, so both sides' clicks are kept; edits go to whichever side changed last
+export const mergeUrl = (local: ShortenedURL, remote: ShortenedURL): ShortenedURL => {
+  const [localTime, localRevision] = lastRevisionKey(local);
+  const [remoteTime, remoteRevision] = lastRevisionKey(remote);
+  // Ties go to the higher revision id so every tab picks the same side
+  const comparison = remoteTime - localTime || compareStrings(remoteRevision, localRevision);
+  const newer = comparison > 0 ? remote : local;
+
+  const clicks: ClickEvent[] = unionById(local.clicks, remote.clicks);
+  const revisions: LinkRevision[] = unionById(local.revisions || [], remote.revisions || []);
+
+  // Counts from before clicks were stored individually are carried over on top of the click list
+  const uncountedClicks = Math.max(local.clickCount - local.clicks.length, remote.clickCount - remote.clicks.length, 0);
+
+  return {
+    ...newer,
+    clicks,
+    clickCount: clicks.length + uncountedClicks,
+    revisions,
+    // Without a newer edit either side may have deactivated the link (expiry or click limit)
+    isActive: comparison === 0 ? local.isActive && remote.isActive : newer.isActive
+  };
+};
+
+export class BrowserTabSync implements SyncChannel {
+  private channel?: BroadcastChannel;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private storageKey?: string) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = () => this.emit();
+    }
+
+    // Storage events cover browsers without BroadcastChannel; both may fire for one change
+    if (storageKey && typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (event.key === this.storageKey) this.emit();
+      });
+    }
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  notify() {
+    this.channel?.postMessage({ type: 'urls-changed' });
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
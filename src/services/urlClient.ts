@@ -0,0 +1,173 @@
+import { ClickDetails, ClickResult, LinkLookup, LinkUnlock, LinkUpdate, PublicUser, ShortenedURL, ShortenOptions, URLClient } from '../types';
+import { DuplicateURLError, URLService, urlService } from './urlService';
+import { reviveUrl } from './persistenceSchema';
+import { revivePublicLink } from '../utils/publicLink';
+import { BrowserTabSync } from './tabSync';
+import { UserService, userService } from './userService';
+import { apiRequest } from './apiRequest';
+import { getSessionToken } from '../utils/session';
+
+export class LocalURLClient implements URLClient {
+  constructor(private service: URLService, private users: UserService) {}
+
+  // Locally the session token is simply the signed-in user's id
+  private async getViewer(): Promise<PublicUser> {
+    await Promise.all([this.service.ready, this.users.ready]);
+    const token = getSessionToken();
+    const viewer = token ? this.users.getUser(token) : null;
+    if (!viewer) {
+      throw new Error('Sign in to manage links');
+    }
+    return viewer;
+  }
+
+  async getAllUrls(): Promise<ShortenedURL[]> {
+    return this.service.getAllUrls(await this.getViewer());
+  }
+
+  async shortenUrl(
+    originalUrl: string,
+    customShortCode?: string,
+    expiryMinutes?: number,
+    options?: ShortenOptions
+  ): Promise<ShortenedURL> {
+    const owner = await this.getViewer();
+    return this.service.shortenUrl(originalUrl, customShortCode, expiryMinutes, options, owner);
+  }
+
+  async resolveShortCode(shortCode: string): Promise<LinkLookup> {
+    await this.service.ready;
+    return this.service.lookupShortCode(shortCode);
+  }
+
+  async unlockUrl(shortCode: string, password: string): Promise<LinkUnlock> {
+    await this.service.ready;
+    return this.service.unlockLink(shortCode, password);
+  }
+
+  async recordClick(
+    shortCode: string,
+    visitToken: string,
+    userAgent: string,
+    referrer: string,
+    details?: ClickDetails
+  ): Promise<ClickResult> {
+    await this.service.ready;
+    return this.service.recordVisit(shortCode, visitToken, userAgent, referrer, details);
+  }
+
+  async updateUrl(id: string, update: LinkUpdate): Promise<ShortenedURL> {
+    return this.service.updateUrl(id, update, await this.getViewer());
+  }
+
+  async rollbackUrl(id: string, revisionId: string): Promise<ShortenedURL> {
+    return this.service.rollbackUrl(id, revisionId, await this.getViewer());
+  }
+
+  async deleteUrl(id: string): Promise<boolean> {
+    return this.service.deleteUrl(id, await this.getViewer());
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.service.subscribe(listener);
+  }
+}
+
+// The server holds the data, so other tabs only need a nudge to fetch it again
+export class HttpURLClient implements URLClient {
+  constructor(private apiUrl: string, private sync = new BrowserTabSync()) {}
+
+  private request(path: string, init: RequestInit = {}, allowedStatuses: number[] = [404]): Promise<Response> {
+    return apiRequest(this.apiUrl, path, init, allowedStatuses);
+  }
+
+  async getAllUrls(): Promise<ShortenedURL[]> {
+    const response = await this.request('/api/urls');
+    const urls: ShortenedURL[] = await response.json();
+    return urls.map(reviveUrl);
+  }
+
+  async shortenUrl(
+    originalUrl: string,
+    customShortCode?: string,
+    expiryMinutes?: number,
+    options: ShortenOptions = {}
+  ): Promise<ShortenedURL> {
+    const response = await this.request('/api/urls', {
+      method: 'POST',
+      body: JSON.stringify({ originalUrl, customShortCode, expiryMinutes, ...options })
+    }, [409]);
+    const body = await response.json();
+    if (response.status === 409) {
+      throw new DuplicateURLError(reviveUrl(body.duplicate));
+    }
+    this.sync.notify();
+    return reviveUrl(body);
+  }
+
+  async resolveShortCode(shortCode: string): Promise<LinkLookup> {
+    const response = await this.request(`/api/codes/${encodeURIComponent(shortCode)}`, {}, [404, 410]);
+    const result: LinkLookup = await response.json();
+    return result.link ? { ...result, link: revivePublicLink(result.link) } : result;
+  }
+
+  async unlockUrl(shortCode: string, password: string): Promise<LinkUnlock> {
+    const response = await this.request(`/api/codes/${encodeURIComponent(shortCode)}/unlock`, {
+      method: 'POST',
+      body: JSON.stringify({ password })
+    }, [401, 404, 429]);
+    const result: LinkUnlock = await response.json();
+    return result.link ? { ...result, link: revivePublicLink(result.link) } : result;
+  }
+
+  async recordClick(
+    shortCode: string,
+    visitToken: string,
+    userAgent: string,
+    referrer: string,
+    details: ClickDetails = {}
+  ): Promise<ClickResult> {
+    const response = await this.request(`/api/codes/${encodeURIComponent(shortCode)}/clicks`, {
+      method: 'POST',
+      body: JSON.stringify({ visitToken, userAgent, referrer, ...details })
+    }, [403, 404, 410]);
+    if (!response.ok) {
+      const { reason = 'not-found' }: ClickResult = await response.json();
+      return { recorded: false, reason };
+    }
+    this.sync.notify();
+    return { recorded: true };
+  }
+
+  async updateUrl(id: string, update: LinkUpdate): Promise<ShortenedURL> {
+    const response = await this.request(`/api/urls/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update)
+    }, []);
+    this.sync.notify();
+    return reviveUrl(await response.json());
+  }
+
+  async rollbackUrl(id: string, revisionId: string): Promise<ShortenedURL> {
+    const response = await this.request(`/api/urls/${encodeURIComponent(id)}/rollback`, {
+      method: 'POST',
+      body: JSON.stringify({ revisionId })
+    }, []);
+    this.sync.notify();
+    return reviveUrl(await response.json());
+  }
+
+  async deleteUrl(id: string): Promise<boolean> {
+    const response = await this.request(`/api/urls/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    this.sync.notify();
+    return response.ok;
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.sync.subscribe(listener);
+  }
+}
+
+export const urlClient: URLClient = process.env.REACT_APP_API_URL
+  ? new HttpURLClient(process.env.REACT_APP_API_URL)
+  : new LocalURLClient(urlService, userService);
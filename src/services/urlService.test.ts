@@ -0,0 +1,28 @@
+import { MemoryStorageAdapter } from './storageAdapters';
+import { URLService } from './urlService';
+
+let service: URLService;
+
+beforeEach(async () => {
+  service = new URLService(new MemoryStorageAdapter(), 'http://localhost');
+  await service.ready;
+});
+
+afterEach(() => {
+  service.dispose();
+});
+
+describe('password lockout', () => {
+  it('locks out only the client that kept guessing', async () => {
+    await service.shortenUrl('https://example.com/', 'secret', 60, { password: 'correct horse' });
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect(await service.unlockUrl('secret', 'wrong', 'attacker')).toEqual({ success: false });
+    }
+    expect((await service.unlockUrl('secret', 'wrong', 'attacker')).retryAfterMs).toBeGreaterThan(0);
+    expect((await service.unlockUrl('secret', 'correct horse', 'attacker')).retryAfterMs).toBeGreaterThan(0);
+
+    const visitor = await service.unlockUrl('secret', 'correct horse', 'visitor');
+    expect(visitor.success).toBe(true);
+  });
+});
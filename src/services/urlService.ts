@@ -1,65 +1,294 @@
-import { ShortenedURL, ClickEvent } from '../types';
+import {
+  ShortenedURL,
+  ClickEvent,
+  ClickDetails,
+  ClickResult,
+  StorageAdapter,
+  ShortenOptions,
+  UnlockResult,
+  ResolveResult,
+  LinkLookup,
+  LinkUnlock,
+  ShortCodeGenerator,
+  ShortCodeGeneratorConfig,
+  PublicUser,
+  EditableField,
+  LinkRevision,
+  LinkUpdate,
+  RevisionChange,
+  RevisionValue,
+  RedirectOptions,
+  RedirectRule,
+  SplitVariant,
+  SyncChannel
+} from '../types';
 import { logger } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
+import { countsTowardQuota, getLinkStatus, isClickLimitReached } from '../utils/linkStatus';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { getPolicy, getUserQuota, isReservedWord } from '../utils/policy';
+import { formatTags, normalizeTags, parseTagInput } from '../utils/tags';
+import { formatRedirectRules, parseRedirectRules } from '../utils/redirectRules';
+import { formatSplitVariants, parseSplitVariants } from '../utils/splitVariants';
+import { formatRedirectOptions, parseRedirectOptions } from '../utils/redirectOptions';
+import { isSameDestination } from '../utils/canonicalUrl';
+import { toPublicLink } from '../utils/publicLink';
+import { createStorageAdapter, STORAGE_KEY } from './storageAdapters';
+import { BrowserTabSync, isSameUrlState, mergeUrl } from './tabSync';
+import { createShortCodeGenerator, resolveShortCodeLength } from './shortCodeGenerators';
 
-class URLService {
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_LOCKOUT_MS = 30 * 1000;
+const MAX_PASSWORD_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_TRACKED_PASSWORD_CLIENTS = 1000;
+const MAX_SHORT_CODE_ATTEMPTS = 10;
+const COLLISIONS_BEFORE_GROWTH = 3;
+const CROWDED_CODE_SPACE_RATIO = 0.25;
+// Long enough to read a click-through warning before continuing
+const VISIT_TOKEN_TTL_MS = 15 * 60 * 1000;
+const MAX_VISIT_TOKENS = 10000;
+const EDITABLE_FIELDS: EditableField[] = [
+  'originalUrl',
+  'shortCode',
+  'expiresAt',
+  'startsAt',
+  'prelaunchUrl',
+  'isActive',
+  'tags',
+  'redirectRules',
+  'splitVariants',
+  'redirectOptions'
+];
+
+const toRevisionValue = (field: EditableField, value: ShortenedURL[EditableField]): RevisionValue => {
+  if (value instanceof Date) return value.toISOString();
+  if (field === 'tags') return formatTags(value as string[] | undefined);
+  if (field === 'redirectRules') return formatRedirectRules(value as RedirectRule[] | undefined);
+  if (field === 'splitVariants') return formatSplitVariants(value as SplitVariant[] | undefined);
+  if (field === 'redirectOptions') return formatRedirectOptions(value as RedirectOptions | undefined);
+  return (value as string | boolean | undefined) ?? null;
+};
+
+export class DuplicateURLError extends Error {
+  constructor(readonly existing: ShortenedURL) {
+    super(`This destination already has an active short link: ${existing.shortUrl}`);
+    this.name = 'DuplicateURLError';
+  }
+}
+
+interface PasswordAttempts {
+  failures: number;
+  lockouts: number;
+  lockedUntil: number;
+}
+
+interface PendingVisit {
+  shortCode: string;
+  expiresAt: number;
+}
+
+export class URLService {
   private urls: Map<string, ShortenedURL> = new Map();
   private shortCodeToId: Map<string, string> = new Map();
+  // Per link, then per client, so one client's wrong guesses never lock out everyone else
+  private passwordAttempts: Map<string, Map<string, PasswordAttempts>> = new Map();
+  private visitTokens: Map<string, PendingVisit> = new Map();
+  private codeGenerator: ShortCodeGenerator;
+  private shortCodeLength: number;
+  // Ids this instance last saw in storage; one that disappears from there was deleted elsewhere
+  private persistedIds: Set<string> = new Set();
+  private cleanupTimer?: ReturnType<typeof setInterval>;
+  private listeners: Set<() => void> = new Set();
+  readonly ready: Promise<void>;
 
-  constructor() {
-    this.loadFromStorage();
-    this.startExpiryCleanup();
+  constructor(
+    private storage: StorageAdapter,
+    private baseUrl?: string,
+    shortCodeConfig: Partial<ShortCodeGeneratorConfig> = getPolicy().shortCode,
+    private sync?: SyncChannel
+  ) {
+    this.codeGenerator = createShortCodeGenerator(shortCodeConfig);
+    this.shortCodeLength = resolveShortCodeLength(shortCodeConfig.length);
+    this.ready = this.loadFromStorage();
+    sync?.subscribe(() => this.refreshFromStorage());
   }
 
-  private loadFromStorage() {
+  private async loadFromStorage() {
     try {
-      const stored = localStorage.getItem('urlShortener_urls');
-      if (stored) {
-        const urlsArray: ShortenedURL[] = JSON.parse(stored);
-        urlsArray.forEach(url => {
-          // Convert date strings back to Date objects
-          url.createdAt = new Date(url.createdAt);
-          url.expiresAt = new Date(url.expiresAt);
-          url.clicks = url.clicks.map(click => ({
-            ...click,
-            timestamp: new Date(click.timestamp)
-          }));
-          
-          this.urls.set(url.id, url);
-          this.shortCodeToId.set(url.shortCode, url.id);
-        });
-        
-        logger.info('URLS_LOADED_FROM_STORAGE', { count: urlsArray.length });
+      const urlsArray = await this.storage.load();
+      urlsArray.forEach(url => {
+        // Anything created while the backend was still loading wins
+        if (this.shortCodeToId.has(url.shortCode)) return;
+
+        this.indexUrl(url);
+        this.persistedIds.add(url.id);
+      });
+
+      if (urlsArray.length > 0) {
+        logger.info('URLS_LOADED_FROM_STORAGE', { count: urlsArray.length, backend: this.storage.backend });
       }
     } catch (error) {
-      logger.error('STORAGE_LOAD_ERROR', { error: error instanceof Error ? error.message : 'Unknown error' });
+      logger.error('STORAGE_LOAD_ERROR', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backend: this.storage.backend
+      });
     }
   }
 
-  private saveToStorage() {
+  private indexUrl(url: ShortenedURL) {
+    this.urls.set(url.id, url);
+    this.shortCodeToId.set(url.shortCode, url.id);
+    this.codeGenerator.observe(url.shortCode);
+    this.startExpiryCleanup();
+  }
+
+  private unindexUrl(url: ShortenedURL) {
+    this.urls.delete(url.id);
+    if (this.shortCodeToId.get(url.shortCode) === url.id) {
+      this.shortCodeToId.delete(url.shortCode);
+    }
+  }
+
+  // Folds another tab's writes into the in-memory maps; returns whether anything changed
+  private mergeFromStorage(storedUrls: ShortenedURL[]): boolean {
+    let changed = false;
+    const storedIds = new Set(storedUrls.map(url => url.id));
+
+    this.persistedIds.forEach(id => {
+      const url = this.urls.get(id);
+      if (url && !storedIds.has(id)) {
+        this.unindexUrl(url);
+        changed = true;
+      }
+    });
+
+    storedUrls.forEach(stored => {
+      const local = this.urls.get(stored.id);
+      // Seen in storage before but gone from memory means it was deleted here and not saved yet
+      if (!local && this.persistedIds.has(stored.id)) return;
+
+      const merged = local ? mergeUrl(local, stored) : stored;
+      if (local && isSameUrlState([merged], [local])) return;
+
+      // Two tabs picking the same custom code at once: the older link keeps it
+      const holderId = this.shortCodeToId.get(merged.shortCode);
+      const holder = holderId && holderId !== merged.id ? this.urls.get(holderId) : undefined;
+      if (holder && holder.createdAt <= merged.createdAt) {
+        logger.warn('SYNC_SHORT_CODE_CONFLICT', { shortCode: merged.shortCode, keptId: holder.id, droppedId: merged.id });
+        return;
+      }
+      if (holder) this.unindexUrl(holder);
+
+      if (local) this.unindexUrl(local);
+      this.indexUrl(merged);
+      changed = true;
+    });
+
+    this.persistedIds = storedIds;
+    return changed;
+  }
+
+  private async refreshFromStorage() {
+    await this.ready;
     try {
-      const urlsArray = Array.from(this.urls.values());
-      localStorage.setItem('urlShortener_urls', JSON.stringify(urlsArray));
-      logger.info('URLS_SAVED_TO_STORAGE', { count: urlsArray.length });
+      const storedUrls = await this.storage.load();
+      if (this.mergeFromStorage(storedUrls)) {
+        logger.debug('URLS_SYNCED_FROM_STORAGE', { count: this.urls.size, backend: this.storage.backend });
+        this.listeners.forEach(listener => listener());
+      }
+
+      // Another tab's save can race this one's and drop clicks or edits; writing the merge back restores them
+      if (!isSameUrlState(Array.from(this.urls.values()), storedUrls)) {
+        this.saveToStorage();
+      }
     } catch (error) {
-      logger.error('STORAGE_SAVE_ERROR', { error: error instanceof Error ? error.message : 'Unknown error' });
+      logger.error('STORAGE_SYNC_ERROR', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backend: this.storage.backend
+      });
     }
   }
 
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private saveToStorage() {
+    // Wait for the initial load so an early save can't clobber stored data
+    this.ready
+      .then(async () => {
+        // Another tab may have written since this one last looked, so merge before overwriting
+        if (this.sync && this.mergeFromStorage(await this.storage.load())) {
+          this.listeners.forEach(listener => listener());
+        }
+
+        const urlsArray = Array.from(this.urls.values());
+        await this.storage.save(urlsArray);
+        this.persistedIds = new Set(urlsArray.map(url => url.id));
+        this.sync?.notify();
+        logger.info('URLS_SAVED_TO_STORAGE', { count: urlsArray.length, backend: this.storage.backend });
+      })
+      .catch(error => {
+        logger.error('STORAGE_SAVE_ERROR', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          backend: this.storage.backend
+        });
+      });
+  }
+
   private generateShortCode(): string {
-    const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+    let length = this.getShortCodeLength();
+
+    for (let attempt = 1; attempt <= MAX_SHORT_CODE_ATTEMPTS; attempt++) {
+      const shortCode = this.codeGenerator.generate(length);
+      if (!this.shortCodeToId.has(shortCode) && !isReservedWord(shortCode)) {
+        return shortCode;
+      }
+
+      logger.warn('SHORT_CODE_COLLISION', { attempt, length, strategy: this.codeGenerator.strategy });
+      // Repeated clashes mean this length is crowded even if the occupancy estimate said otherwise
+      if (attempt % COLLISIONS_BEFORE_GROWTH === 0) {
+        length++;
+      }
     }
-    return result;
+
+    throw new Error('Could not generate a unique short code');
   }
 
+  private getShortCodeLength(): number {
+    const codes = Array.from(this.shortCodeToId.keys());
+    let length = this.shortCodeLength;
+
+    while (
+      codes.filter(code => code.length === length).length >
+      Math.pow(this.codeGenerator.alphabet.length, length) * CROWDED_CODE_SPACE_RATIO
+    ) {
+      length++;
+    }
+
+    if (length > this.shortCodeLength) {
+      logger.info('SHORT_CODE_LENGTH_INCREASED', { configured: this.shortCodeLength, length });
+    }
+    return length;
+  }
+
+  // Started with the first link, so a service with nothing to expire keeps no timer running
   private startExpiryCleanup() {
-    setInterval(() => {
+    if (this.cleanupTimer) return;
+    this.cleanupTimer = setInterval(() => {
       this.cleanupExpiredUrls();
     }, 60000); // Check every minute
   }
 
+  // Stops the expiry sweep so a process that is done with the service can exit
+  dispose() {
+    clearInterval(this.cleanupTimer);
+    this.cleanupTimer = undefined;
+  }
+
   private cleanupExpiredUrls() {
     const now = new Date();
     let cleanedCount = 0;
@@ -77,40 +306,67 @@ class URLService {
     }
   }
 
-  shortenUrl(
+  async shortenUrl(
     originalUrl: string, 
     customShortCode?: string, 
-    expiryMinutes: number = 30
-  ): ShortenedURL {
+    expiryMinutes: number = getPolicy().defaultExpiryMinutes,
+    options: ShortenOptions = {},
+    owner?: PublicUser
+  ): Promise<ShortenedURL> {
+    // Hash before any checks so the checks and the insert happen without a gap
+    const password = options.password ? await hashPassword(options.password) : undefined;
+
+    const onDuplicate = options.onDuplicate ?? 'offer';
+    const duplicate = onDuplicate === 'create' ? undefined : this.findDuplicate(originalUrl, owner);
+    if (duplicate && onDuplicate === 'reuse') {
+      logger.info('URL_DUPLICATE_REUSED', { id: duplicate.id, shortCode: duplicate.shortCode });
+      return duplicate;
+    }
+    if (duplicate) {
+      throw new DuplicateURLError(duplicate);
+    }
+
     const id = `url_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const shortCode = customShortCode || this.generateShortCode();
     
     // Check if short code already exists
     if (this.shortCodeToId.has(shortCode)) {
-      throw new Error('Short code already exists');
+      throw new ValidationError('Short code already exists');
     }
 
-    // Check concurrent limit (5 active URLs)
-    const activeUrls = Array.from(this.urls.values()).filter(url => url.isActive);
-    if (activeUrls.length >= 5) {
-      logger.warn('CONCURRENT_LIMIT_REACHED', { activeCount: activeUrls.length });
-      throw new Error('Maximum of 5 concurrent URLs allowed');
-    }
+    this.assertWithinQuota(owner);
 
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + expiryMinutes * 60 * 1000);
+    const startsAt = options.startsAt && options.startsAt > now ? options.startsAt : undefined;
+    // A scheduled link's lifetime runs from when it goes live, not from when it was created
+    const expiresAt = new Date((startsAt ?? now).getTime() + expiryMinutes * 60 * 1000);
 
     const shortenedUrl: ShortenedURL = {
       id,
       originalUrl,
       shortCode,
-      shortUrl: `${window.location.origin}/${shortCode}`,
+      shortUrl: this.buildShortUrl(shortCode),
       createdAt: now,
       expiresAt,
+      startsAt,
+      prelaunchUrl: startsAt ? options.prelaunchUrl || undefined : undefined,
       isActive: true,
       clickCount: 0,
-      clicks: []
+      clicks: [],
+      password,
+      maxClicks: options.maxClicks,
+      queryPassthrough: options.queryPassthrough,
+      ownerId: owner?.id,
+      revisions: [],
+      tags: normalizeTags(options.tags || []),
+      redirectOptions: options.redirectOptions
     };
+    // The creation revision gives rollbacks a starting point to return to
+    this.addRevision(shortenedUrl, EDITABLE_FIELDS.map(field => ({
+      field,
+      oldValue: null,
+      newValue: toRevisionValue(field, shortenedUrl[field])
+    })), owner);
 
     this.urls.set(id, shortenedUrl);
     this.shortCodeToId.set(shortCode, id);
@@ -120,25 +376,291 @@ class URLService {
       id,
       shortCode,
       originalUrl: originalUrl.substring(0, 100),
-      expiryMinutes
+      expiryMinutes,
+      startsAt,
+      passwordProtected: !!password,
+      maxClicks: options.maxClicks,
+      ownerId: owner?.id
     });
 
     return shortenedUrl;
   }
 
-  getUrlByShortCode(shortCode: string): ShortenedURL | null {
-    const id = this.shortCodeToId.get(shortCode);
-    if (!id) return null;
+  // Only plain links count: protected or click-limited ones exist for a specific audience
+  findDuplicate(originalUrl: string, owner?: PublicUser): ShortenedURL | undefined {
+    return Array.from(this.urls.values()).find(url =>
+      url.ownerId === owner?.id &&
+      !url.password &&
+      url.maxClicks === undefined &&
+      getLinkStatus(url) === 'active' &&
+      isSameDestination(url.originalUrl, originalUrl)
+    );
+  }
 
-    const url = this.urls.get(id);
-    if (!url || !url.isActive || url.expiresAt < new Date()) {
-      return null;
+  private buildShortUrl(shortCode: string): string {
+    return `${this.baseUrl ?? window.location.origin}/${shortCode}`;
+  }
+
+  // Owned links count against their owner's quota only
+  private assertWithinQuota(owner?: PublicUser) {
+    const limit = owner ? getUserQuota(owner) : getPolicy().maxActiveUrls;
+    const now = new Date();
+    const activeUrls = Array.from(this.urls.values())
+      .filter(url => countsTowardQuota(url, now) && (!owner || url.ownerId === owner.id));
+    if (activeUrls.length >= limit) {
+      logger.warn('CONCURRENT_LIMIT_REACHED', { activeCount: activeUrls.length, limit, userId: owner?.id });
+      throw new ValidationError(`Maximum of ${limit} concurrent URLs allowed`);
+    }
+  }
+
+  private addRevision(url: ShortenedURL, changes: RevisionChange[], editor?: PublicUser, rollbackOf?: string) {
+    const revision: LinkRevision = {
+      id: `rev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(),
+      userId: editor?.id,
+      username: editor?.username,
+      changes,
+      rollbackOf
+    };
+    url.revisions = [...(url.revisions || []), revision];
+  }
+
+  updateUrl(id: string, update: LinkUpdate, viewer?: PublicUser, rollbackOf?: string): ShortenedURL {
+    const url = this.getUrlById(id, viewer);
+    if (!url) {
+      throw new Error('URL not found');
+    }
+
+    const startsAt = update.startsAt === null ? undefined : update.startsAt ?? url.startsAt;
+    const next = {
+      originalUrl: update.originalUrl ?? url.originalUrl,
+      shortCode: update.shortCode ?? url.shortCode,
+      expiresAt: update.expiresAt ?? url.expiresAt,
+      startsAt,
+      // A pre-launch page means nothing without a launch to wait for
+      prelaunchUrl: startsAt ? (update.prelaunchUrl !== undefined ? update.prelaunchUrl || undefined : url.prelaunchUrl) : undefined,
+      isActive: update.isActive ?? url.isActive,
+      tags: update.tags ? normalizeTags(update.tags) : url.tags || [],
+      redirectRules: update.redirectRules ?? url.redirectRules ?? [],
+      splitVariants: update.splitVariants ?? url.splitVariants ?? [],
+      redirectOptions: update.redirectOptions === null ? undefined : update.redirectOptions ?? url.redirectOptions
+    };
+
+    if (next.shortCode !== url.shortCode && this.shortCodeToId.has(next.shortCode)) {
+      throw new ValidationError('Short code already exists');
+    }
+
+    if (next.startsAt && next.startsAt >= next.expiresAt) {
+      throw new ValidationError('The go-live time must be before the expiry time');
     }
 
+    if (next.isActive && !url.isActive) {
+      if (next.expiresAt <= new Date()) {
+        throw new ValidationError('Set a future expiry time to reactivate this link');
+      }
+      if (isClickLimitReached(url)) {
+        throw new ValidationError('This link has reached its click limit');
+      }
+    }
+
+    // Reactivating or bringing a scheduled launch forward both take a slot; admins may go past a quota
+    if (countsTowardQuota(next) && !countsTowardQuota(url) && viewer?.role !== 'admin') {
+      this.assertWithinQuota(viewer);
+    }
+
+    const changes = EDITABLE_FIELDS
+      .map(field => ({ field, oldValue: toRevisionValue(field, url[field]), newValue: toRevisionValue(field, next[field]) }))
+      .filter(change => change.oldValue !== change.newValue);
+    if (changes.length === 0) {
+      return url;
+    }
+
+    if (next.shortCode !== url.shortCode) {
+      this.shortCodeToId.delete(url.shortCode);
+      this.passwordAttempts.delete(url.shortCode);
+      this.shortCodeToId.set(next.shortCode, url.id);
+      url.shortUrl = this.buildShortUrl(next.shortCode);
+    }
+
+    Object.assign(url, next);
+    this.addRevision(url, changes, viewer, rollbackOf);
+    this.saveToStorage();
+
+    logger.info(rollbackOf ? 'URL_ROLLED_BACK' : 'URL_UPDATED', {
+      id,
+      shortCode: url.shortCode,
+      fields: changes.map(change => change.field),
+      rollbackOf,
+      userId: viewer?.id
+    });
+
     return url;
   }
 
-  recordClick(shortCode: string, userAgent: string, referrer: string): boolean {
+  // Restores the link as it was right after the given revision by undoing every later one
+  rollbackUrl(id: string, revisionId: string, viewer?: PublicUser): ShortenedURL {
+    const url = this.getUrlById(id, viewer);
+    if (!url) {
+      throw new Error('URL not found');
+    }
+
+    const revisions = url.revisions || [];
+    const index = revisions.findIndex(revision => revision.id === revisionId);
+    if (index === -1) {
+      throw new ValidationError('Revision not found');
+    }
+
+    const target: Partial<Record<EditableField, RevisionValue>> = {};
+    revisions.slice(index + 1).reverse().forEach(revision => {
+      revision.changes.forEach(change => {
+        target[change.field] = change.oldValue;
+      });
+    });
+
+    const update: LinkUpdate = {};
+    if (typeof target.originalUrl === 'string') update.originalUrl = target.originalUrl;
+    if (typeof target.shortCode === 'string') update.shortCode = target.shortCode;
+    if (typeof target.expiresAt === 'string') update.expiresAt = new Date(target.expiresAt);
+    // These two start out unset, so rolling back to before they were set clears them
+    if (target.startsAt !== undefined) update.startsAt = typeof target.startsAt === 'string' ? new Date(target.startsAt) : null;
+    if (target.prelaunchUrl !== undefined) update.prelaunchUrl = typeof target.prelaunchUrl === 'string' ? target.prelaunchUrl : '';
+    if (typeof target.isActive === 'boolean') update.isActive = target.isActive;
+    if (typeof target.tags === 'string') update.tags = parseTagInput(target.tags);
+    if (typeof target.redirectRules === 'string') update.redirectRules = parseRedirectRules(target.redirectRules);
+    if (typeof target.splitVariants === 'string') update.splitVariants = parseSplitVariants(target.splitVariants);
+    if (typeof target.redirectOptions === 'string') update.redirectOptions = parseRedirectOptions(target.redirectOptions);
+
+    // An old expiry that has since passed can't bring the link back to life
+    if (update.isActive && !url.isActive && (update.expiresAt ?? url.expiresAt) <= new Date()) {
+      delete update.isActive;
+    }
+
+    return this.updateUrl(id, update, viewer, revisionId);
+  }
+
+  // Without a viewer the caller is trusted (the server itself, or a single-user setup)
+  canManage(url: ShortenedURL, viewer?: PublicUser): boolean {
+    return !viewer || viewer.role === 'admin' || url.ownerId === viewer.id;
+  }
+
+  getUrlById(id: string, viewer?: PublicUser): ShortenedURL | null {
+    const url = this.urls.get(id);
+    return url && this.canManage(url, viewer) ? url : null;
+  }
+
+  resolveShortCode(shortCode: string): ResolveResult {
+    const id = this.shortCodeToId.get(shortCode);
+    const url = id ? this.urls.get(id) : undefined;
+    if (!url) return { status: 'not-found' };
+
+    return { status: getLinkStatus(url), url };
+  }
+
+  // The anonymous view of a short code, as served to visitors
+  lookupShortCode(shortCode: string): LinkLookup {
+    const { status, url } = this.resolveShortCode(shortCode);
+    if (!url) return { status };
+
+    const canOpen = status === 'active' && !url.password;
+    return {
+      status,
+      link: toPublicLink(url, canOpen),
+      visitToken: canOpen ? this.issueVisitToken(url.shortCode) : undefined
+    };
+  }
+
+  getUrlByShortCode(shortCode: string): ShortenedURL | null {
+    const { status, url } = this.resolveShortCode(shortCode);
+    return status === 'active' && url ? url : null;
+  }
+
+  // clientId is whatever tells visitors apart, such as the server's view of their IP address
+  async unlockUrl(shortCode: string, password: string, clientId = ''): Promise<UnlockResult> {
+    const url = this.getUrlByShortCode(shortCode);
+    if (!url) return { success: false };
+    if (!url.password) return { success: true, url };
+
+    const clients = this.passwordAttempts.get(shortCode) || new Map<string, PasswordAttempts>();
+    const attempts = clients.get(clientId) || { failures: 0, lockouts: 0, lockedUntil: 0 };
+    const now = Date.now();
+
+    if (attempts.lockedUntil > now) {
+      logger.warn('PASSWORD_ATTEMPT_THROTTLED', { shortCode, retryAfterMs: attempts.lockedUntil - now });
+      return { success: false, retryAfterMs: attempts.lockedUntil - now };
+    }
+
+    // Tracked before the check so parallel guesses share one count; like visit tokens, the oldest clients give way
+    clients.delete(clientId);
+    if (clients.size >= MAX_TRACKED_PASSWORD_CLIENTS) {
+      const oldest = clients.keys().next().value;
+      if (oldest !== undefined) clients.delete(oldest);
+    }
+    clients.set(clientId, attempts);
+    this.passwordAttempts.set(shortCode, clients);
+
+    if (await verifyPassword(password, url.password)) {
+      clients.delete(clientId);
+      logger.info('PASSWORD_ACCEPTED', { shortCode });
+      return { success: true, url };
+    }
+
+    attempts.failures++;
+    logger.warn('PASSWORD_ATTEMPT_FAILED', { shortCode, failures: attempts.failures });
+
+    if (attempts.failures >= MAX_PASSWORD_ATTEMPTS) {
+      // Each lockout doubles the wait, up to a ceiling
+      const lockoutMs = Math.min(PASSWORD_LOCKOUT_MS * 2 ** attempts.lockouts, MAX_PASSWORD_LOCKOUT_MS);
+      attempts.failures = 0;
+      attempts.lockouts++;
+      attempts.lockedUntil = now + lockoutMs;
+
+      logger.warn('PASSWORD_LOCKOUT_STARTED', { shortCode, lockoutMs });
+      return { success: false, retryAfterMs: lockoutMs };
+    }
+
+    return { success: false };
+  }
+
+  async unlockLink(shortCode: string, password: string, clientId = ''): Promise<LinkUnlock> {
+    const { success, url, retryAfterMs } = await this.unlockUrl(shortCode, password, clientId);
+    return success && url
+      ? { success, link: toPublicLink(url, true), visitToken: this.issueVisitToken(url.shortCode) }
+      : { success: false, retryAfterMs };
+  }
+
+  issueVisitToken(shortCode: string): string {
+    const now = Date.now();
+    this.visitTokens.forEach((visit, token) => {
+      if (visit.expiresAt <= now) this.visitTokens.delete(token);
+    });
+    // Lookups are anonymous, so the oldest pending visits give way rather than memory growing without bound
+    if (this.visitTokens.size >= MAX_VISIT_TOKENS) {
+      this.visitTokens.delete(this.visitTokens.keys().next().value);
+    }
+
+    const token = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+    this.visitTokens.set(token, { shortCode, expiresAt: now + VISIT_TOKEN_TTL_MS });
+    return token;
+  }
+
+  // Clicks reported by visitors only count with a fresh token for this link, each token once
+  recordVisit(shortCode: string, visitToken: string, userAgent: string, referrer: string, details: ClickDetails = {}): ClickResult {
+    const visit = this.visitTokens.get(visitToken);
+    this.visitTokens.delete(visitToken);
+
+    if (!visit || visit.shortCode !== shortCode || visit.expiresAt <= Date.now()) {
+      logger.warn('CLICK_REJECTED', { shortCode, reason: visit ? 'Visit token expired or for another link' : 'Unknown visit token' });
+      return { recorded: false, reason: 'invalid-token' };
+    }
+
+    const { status } = this.resolveShortCode(shortCode);
+    if (status !== 'active') {
+      return { recorded: false, reason: status };
+    }
+    return { recorded: this.recordClick(shortCode, userAgent, referrer, details) };
+  }
+
+  recordClick(shortCode: string, userAgent: string, referrer: string, details: ClickDetails = {}): boolean {
     const url = this.getUrlByShortCode(shortCode);
     if (!url) return false;
 
@@ -151,36 +673,70 @@ class URLService {
       location: 'Hyderabad/Secunderabad' // Jurisdiction compliance
     };
 
+    if (details.campaignParams && Object.keys(details.campaignParams).length > 0) {
+      clickEvent.campaignParams = details.campaignParams;
+    }
+
+    // Callers report the rule or variant they followed; only keep ids that belong to this link
+    if (details.ruleId && url.redirectRules?.some(rule => rule.id === details.ruleId)) {
+      clickEvent.ruleId = details.ruleId;
+    }
+    if (details.variantId && url.splitVariants?.some(variant => variant.id === details.variantId)) {
+      clickEvent.variantId = details.variantId;
+    }
+
     url.clicks.push(clickEvent);
     url.clickCount++;
+
+    // Capped links deactivate on their last allowed click, freeing a concurrent slot
+    if (isClickLimitReached(url)) {
+      url.isActive = false;
+      logger.info('CLICK_LIMIT_REACHED', { shortCode, maxClicks: url.maxClicks });
+    }
+
     this.saveToStorage();
 
     logger.info('CLICK_RECORDED', {
       shortCode,
       clickId: clickEvent.id,
+      ruleId: clickEvent.ruleId,
+      variantId: clickEvent.variantId,
       totalClicks: url.clickCount
     });
 
     return true;
   }
 
-  getAllUrls(): ShortenedURL[] {
-    return Array.from(this.urls.values()).sort((a, b) => 
-      b.createdAt.getTime() - a.createdAt.getTime()
-    );
+  getAllUrls(viewer?: PublicUser): ShortenedURL[] {
+    return Array.from(this.urls.values())
+      .filter(url => this.canManage(url, viewer))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  deleteUrl(id: string): boolean {
+  deleteUrl(id: string, viewer?: PublicUser): boolean {
     const url = this.urls.get(id);
     if (!url) return false;
 
-    this.urls.delete(id);
-    this.shortCodeToId.delete(url.shortCode);
+    if (!this.canManage(url, viewer)) {
+      logger.warn('URL_DELETE_FORBIDDEN', { id, userId: viewer?.id });
+      return false;
+    }
+
+    this.unindexUrl(url);
+    this.passwordAttempts.delete(url.shortCode);
     this.saveToStorage();
 
-    logger.info('URL_DELETED', { id, shortCode: url.shortCode });
+    logger.info('URL_DELETED', { id, shortCode: url.shortCode, userId: viewer?.id });
     return true;
   }
 }
 
-export const urlService = new URLService();
+const storage = createStorageAdapter(process.env.REACT_APP_STORAGE_BACKEND);
+
+// Memory storage is private to each tab, so there is nothing to keep in sync
+export const urlService = new URLService(
+  storage,
+  undefined,
+  getPolicy().shortCode,
+  storage.backend === 'memory' ? undefined : new BrowserTabSync(STORAGE_KEY)
+);
@@ -0,0 +1,204 @@
+import { PublicUser, User, UserStore, UserUpdate } from '../types';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
+import { hashPassword, verifyPassword } from '../utils/password';
+
+const USERS_STORAGE_KEY = 'urlShortener_users';
+
+export const reviveUser = (user: User): User => ({
+  ...user,
+  createdAt: new Date(user.createdAt)
+});
+
+export const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => user;
+
+export class MemoryUserStore implements UserStore {
+  private snapshot = '[]';
+
+  async load(): Promise<User[]> {
+    const users: User[] = JSON.parse(this.snapshot);
+    return users.map(reviveUser);
+  }
+
+  async save(users: User[]): Promise<void> {
+    this.snapshot = JSON.stringify(users);
+  }
+}
+
+export class LocalUserStore implements UserStore {
+  constructor(private key: string = USERS_STORAGE_KEY) {}
+
+  async load(): Promise<User[]> {
+    const stored = localStorage.getItem(this.key);
+    if (!stored) return [];
+
+    const users: User[] = JSON.parse(stored);
+    return users.map(reviveUser);
+  }
+
+  async save(users: User[]): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(users));
+  }
+}
+
+export const createUserStore = (): UserStore =>
+  typeof localStorage !== 'undefined' ? new LocalUserStore() : new MemoryUserStore();
+
+export class UserService {
+  private users: Map<string, User> = new Map();
+  private sessions: Map<string, string> = new Map();
+  // Users this tab changed since its last save; every other account is taken from storage
+  private unsavedIds: Set<string> = new Set();
+  readonly ready: Promise<void>;
+
+  constructor(private store: UserStore) {
+    this.ready = this.loadFromStorage();
+  }
+
+  private async loadFromStorage() {
+    try {
+      const users = await this.store.load();
+      users.forEach(user => this.users.set(user.id, user));
+    } catch (error) {
+      logger.error('USER_STORE_LOAD_ERROR', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  // Other tabs share the store, so their registrations and edits are folded in rather than overwritten
+  private mergeFromStorage(storedUsers: User[]) {
+    storedUsers.forEach(stored => {
+      if (this.unsavedIds.has(stored.id)) return;
+
+      // Two tabs registering the same name at once: the older account keeps it
+      const holder = this.findByUsername(stored.username);
+      if (holder && holder.id !== stored.id) {
+        if (holder.createdAt <= stored.createdAt) {
+          logger.warn('USER_SYNC_USERNAME_CONFLICT', { username: stored.username, keptId: holder.id, droppedId: stored.id });
+          return;
+        }
+        logger.warn('USER_SYNC_USERNAME_CONFLICT', { username: stored.username, keptId: stored.id, droppedId: holder.id });
+        this.users.delete(holder.id);
+        this.unsavedIds.delete(holder.id);
+      }
+
+      this.users.set(stored.id, stored);
+    });
+  }
+
+  private saveToStorage() {
+    this.ready
+      .then(async () => {
+        this.mergeFromStorage(await this.store.load());
+        const savedIds = Array.from(this.unsavedIds);
+        await this.store.save(Array.from(this.users.values()));
+        savedIds.forEach(id => this.unsavedIds.delete(id));
+      })
+      .catch(error => {
+        logger.error('USER_STORE_SAVE_ERROR', { error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+  }
+
+  private findByUsername(username: string): User | undefined {
+    const normalized = username.toLowerCase();
+    return Array.from(this.users.values()).find(user => user.username.toLowerCase() === normalized);
+  }
+
+  async register(username: string, password: string): Promise<PublicUser> {
+    const passwordHash = await hashPassword(password);
+
+    if (this.findByUsername(username)) {
+      throw new ValidationError('Username is already taken');
+    }
+
+    // The first account on a fresh install administers it
+    const user: User = {
+      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      username,
+      role: this.users.size === 0 ? 'admin' : 'user',
+      passwordHash,
+      createdAt: new Date()
+    };
+
+    this.users.set(user.id, user);
+    this.unsavedIds.add(user.id);
+    this.saveToStorage();
+
+    logger.info('USER_REGISTERED', { userId: user.id, username, role: user.role });
+    return toPublicUser(user);
+  }
+
+  async signIn(username: string, password: string): Promise<PublicUser | null> {
+    const user = this.findByUsername(username);
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      logger.warn('USER_SIGN_IN_FAILED', { username });
+      return null;
+    }
+
+    logger.info('USER_SIGNED_IN', { userId: user.id, username: user.username });
+    return toPublicUser(user);
+  }
+
+  createSession(userId: string): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const token = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    this.sessions.set(token, userId);
+    return token;
+  }
+
+  getSessionUser(token: string): PublicUser | null {
+    const userId = this.sessions.get(token);
+    return userId ? this.getUser(userId) : null;
+  }
+
+  endSession(token: string) {
+    this.sessions.delete(token);
+  }
+
+  getUser(id: string): PublicUser | null {
+    const user = this.users.get(id);
+    return user ? toPublicUser(user) : null;
+  }
+
+  getAllUsers(): PublicUser[] {
+    return Array.from(this.users.values())
+      .map(toPublicUser)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  updateUser(id: string, update: UserUpdate): PublicUser {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (update.role && update.role !== 'admin' && update.role !== 'user') {
+      throw new ValidationError('Role must be admin or user');
+    }
+
+    if (update.role && update.role !== user.role && user.role === 'admin') {
+      const admins = Array.from(this.users.values()).filter(other => other.role === 'admin');
+      if (admins.length === 1) {
+        throw new ValidationError('At least one admin is required');
+      }
+    }
+
+    if (update.quota !== undefined && update.quota !== null && (!Number.isInteger(update.quota) || update.quota < 0)) {
+      throw new ValidationError('Quota must be a whole number of at least 0');
+    }
+
+    if (update.role) {
+      user.role = update.role;
+    }
+    if (update.quota !== undefined) {
+      // null clears the override so the role quota applies again
+      user.quota = update.quota ?? undefined;
+    }
+    this.unsavedIds.add(id);
+    this.saveToStorage();
+
+    logger.info('USER_UPDATED', { userId: id, role: user.role, quota: user.quota });
+    return toPublicUser(user);
+  }
+}
+
+export const userService = new UserService(createUserStore());
@@ -5,9 +5,190 @@ export interface ShortenedURL {
   shortUrl: string;
   createdAt: Date;
   expiresAt: Date;
+  // Scheduled links exist before this time but don't resolve until it passes
+  startsAt?: Date;
+  // Where visitors go while a scheduled link isn't live yet
+  prelaunchUrl?: string;
   isActive: boolean;
   clickCount: number;
   clicks: ClickEvent[];
+  password?: PasswordHash;
+  maxClicks?: number;
+  queryPassthrough?: QueryPassthroughMode;
+  ownerId?: string;
+  revisions?: LinkRevision[];
+  tags?: string[];
+  redirectRules?: RedirectRule[];
+  splitVariants?: SplitVariant[];
+  redirectOptions?: RedirectOptions;
+}
+
+// instant skips the interstitial, timed counts down before leaving and click-through waits for the visitor
+export type RedirectMode = 'instant' | 'timed' | 'click-through';
+
+export interface RedirectOptions {
+  mode: RedirectMode;
+  countdownSeconds: number;
+  // Sends no Referer header to the destination
+  stripReferrer: boolean;
+  // Shows the destination's hostname and full URL before leaving
+  showPreview: boolean;
+}
+
+// Traffic that no redirect rule claims is spread across variants in proportion to their weights
+export interface SplitVariant {
+  id: string;
+  label: string;
+  destination: string;
+  weight: number;
+}
+
+// Every criterion that is set must match; a rule without any criteria matches every click
+export interface RedirectRule {
+  id: string;
+  label: string;
+  destination: string;
+  os?: string[];
+  devices?: DeviceType[];
+  languages?: string[];
+  referrerDomains?: string[];
+  // 0 is Sunday
+  days?: number[];
+  // Hour window [startHour, endHour), wrapping past midnight when startHour > endHour
+  startHour?: number;
+  endHour?: number;
+  timeZone?: string;
+}
+
+export interface RedirectContext {
+  userAgent: string;
+  referrer: string;
+  // Most preferred first, lower-case
+  languages: string[];
+  // Keeps a returning visitor on the same split variant
+  visitorId?: string;
+  now?: Date;
+}
+
+export interface RedirectResolution {
+  destination: string;
+  rule?: RedirectRule;
+  variant?: SplitVariant;
+}
+
+export type EditableField =
+  | 'originalUrl'
+  | 'shortCode'
+  | 'expiresAt'
+  | 'startsAt'
+  | 'prelaunchUrl'
+  | 'isActive'
+  | 'tags'
+  | 'redirectRules'
+  | 'splitVariants'
+  | 'redirectOptions';
+
+export type RevisionValue = string | boolean | null;
+
+export interface RevisionChange {
+  field: EditableField;
+  oldValue: RevisionValue;
+  newValue: RevisionValue;
+}
+
+export interface LinkRevision {
+  id: string;
+  timestamp: Date;
+  userId?: string;
+  username?: string;
+  changes: RevisionChange[];
+  rollbackOf?: string;
+}
+
+export interface LinkUpdate {
+  originalUrl?: string;
+  shortCode?: string;
+  expiresAt?: Date;
+  // null puts the link live straight away
+  startsAt?: Date | null;
+  // An empty string removes the pre-launch destination
+  prelaunchUrl?: string;
+  isActive?: boolean;
+  tags?: string[];
+  redirectRules?: RedirectRule[];
+  splitVariants?: SplitVariant[];
+  redirectOptions?: RedirectOptions | null;
+}
+
+export type QueryPassthroughMode = 'incoming-wins' | 'destination-wins';
+
+export type LinkStatus = 'active' | 'scheduled' | 'expired' | 'limit-reached';
+
+export interface ResolveResult {
+  status: LinkStatus | 'not-found';
+  url?: ShortenedURL;
+}
+
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  hash: string;
+}
+
+// 'offer' rejects a duplicate destination with the existing link so the caller can choose
+export type DuplicateHandling = 'offer' | 'reuse' | 'create';
+
+export interface ShortenOptions {
+  password?: string;
+  maxClicks?: number;
+  queryPassthrough?: QueryPassthroughMode;
+  tags?: string[];
+  redirectOptions?: RedirectOptions;
+  startsAt?: Date;
+  prelaunchUrl?: string;
+  onDuplicate?: DuplicateHandling;
+}
+
+export interface UnlockResult {
+  success: boolean;
+  url?: ShortenedURL;
+  retryAfterMs?: number;
+}
+
+// All an anonymous visitor may learn about a link: enough to redirect, nothing about its owner or traffic
+export interface PublicLink {
+  id: string;
+  shortCode: string;
+  // Empty until the link is live and, when protected, unlocked
+  originalUrl: string;
+  hasPassword: boolean;
+  startsAt?: Date;
+  prelaunchUrl?: string;
+  queryPassthrough?: QueryPassthroughMode;
+  redirectRules?: RedirectRule[];
+  splitVariants?: SplitVariant[];
+  redirectOptions?: RedirectOptions;
+}
+
+// A visit token counts one click; it is only handed out when the visitor may open the link
+export interface LinkLookup {
+  status: ResolveResult['status'];
+  link?: PublicLink;
+  visitToken?: string;
+}
+
+export interface LinkUnlock {
+  success: boolean;
+  link?: PublicLink;
+  visitToken?: string;
+  retryAfterMs?: number;
+}
+
+// A spent, expired or unknown token is 'invalid-token'; looking the link up again issues a new one
+export interface ClickResult {
+  recorded: boolean;
+  reason?: Exclude<ResolveResult['status'], 'active'> | 'invalid-token';
 }
 
 export interface ClickEvent {
@@ -17,19 +198,311 @@ export interface ClickEvent {
   ipAddress: string;
   referrer: string;
   location: string;
+  campaignParams?: Record<string, string>;
+  ruleId?: string;
+  variantId?: string;
+}
+
+export interface ClickDetails {
+  campaignParams?: Record<string, string>;
+  ruleId?: string;
+  variantId?: string;
+}
+
+export interface UtmParams {
+  source: string;
+  medium: string;
+  campaign: string;
 }
 
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
 export interface LogEvent {
   id: string;
   timestamp: Date;
-  level: 'INFO' | 'WARN' | 'ERROR';
+  level: LogLevel;
   action: string;
   details: Record<string, any>;
   userId?: string;
   sessionId: string;
 }
 
+export interface LogExplorerFilter {
+  levels: LogLevel[];
+  action: string;
+  sessionId: string;
+  search: string;
+  from: string;
+  to: string;
+}
+
+export interface LogTransport {
+  name: string;
+  minLevel: LogLevel;
+  write(event: LogEvent): void;
+  flush?(): Promise<void>;
+  getEvents?(): LogEvent[];
+}
+
+export interface LoggerConfig {
+  transports: LogTransport[];
+  redactKeys: string[];
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
 }
+
+export type UrlRejectionCode =
+  | 'required'
+  | 'invalid-format'
+  | 'unsupported-protocol'
+  | 'malicious-content'
+  | 'embedded-credentials'
+  | 'ip-literal'
+  | 'self-referential'
+  | 'domain-blocked'
+  | 'domain-not-allowed'
+  | 'punycode'
+  | 'homograph';
+
+export interface UrlRejection {
+  code: UrlRejectionCode;
+  message: string;
+}
+
+export interface UrlValidationResult extends ValidationResult {
+  reasons: UrlRejection[];
+}
+
+export interface UrlRulesConfig {
+  allowedDomains: string[];
+  blockedDomains: string[];
+  allowIpHosts: boolean;
+  allowPunycode: boolean;
+  selfHosts: string[];
+}
+
+export type StorageBackend = 'memory' | 'localStorage' | 'indexedDB' | 'file';
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  load(): Promise<ShortenedURL[]>;
+  save(urls: ShortenedURL[]): Promise<void>;
+}
+
+// What gets written to storage; bare arrays from before versioning count as version 1
+export interface PersistedUrlStore {
+  schemaVersion: number;
+  urls: unknown[];
+}
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  migrate(record: Record<string, any>): Record<string, any>;
+}
+
+// A stored record that failed validation, kept as-is so it can be recovered by hand
+export interface QuarantinedRecord {
+  id: string;
+  quarantinedAt: Date;
+  schemaVersion: number;
+  reasons: string[];
+  record: unknown;
+}
+
+export interface MigrationReport {
+  backend: StorageBackend;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  loaded: number;
+  quarantined: number;
+}
+
+export interface StoreUpgradeResult {
+  urls: ShortenedURL[];
+  quarantined: QuarantinedRecord[];
+  report: MigrationReport;
+  // True when storage should be rewritten in the current format
+  needsSave: boolean;
+}
+
+// Tells other tabs that stored links changed and listens for the same from them
+export interface SyncChannel {
+  notify(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface URLClient {
+  getAllUrls(): Promise<ShortenedURL[]>;
+  shortenUrl(
+    originalUrl: string,
+    customShortCode?: string,
+    expiryMinutes?: number,
+    options?: ShortenOptions
+  ): Promise<ShortenedURL>;
+  resolveShortCode(shortCode: string): Promise<LinkLookup>;
+  unlockUrl(shortCode: string, password: string): Promise<LinkUnlock>;
+  recordClick(shortCode: string, visitToken: string, userAgent: string, referrer: string, details?: ClickDetails): Promise<ClickResult>;
+  updateUrl(id: string, update: LinkUpdate): Promise<ShortenedURL>;
+  rollbackUrl(id: string, revisionId: string): Promise<ShortenedURL>;
+  deleteUrl(id: string): Promise<boolean>;
+  // Called when links change outside this client, e.g. in another browser tab
+  subscribe(listener: () => void): () => void;
+}
+
+export type TransferFormat = 'csv' | 'json';
+
+export interface ImportRow {
+  row: number;
+  originalUrl: string;
+  customShortCode?: string;
+  expiryMinutes?: number;
+  tags?: string[];
+}
+
+export interface ImportResult {
+  row: number;
+  originalUrl: string;
+  success: boolean;
+  shortCode?: string;
+  errors: string[];
+}
+
+export interface BreakdownRow {
+  label: string;
+  count: number;
+  percentage: number;
+}
+
+export interface VariantStats {
+  variant: SplitVariant;
+  // Both shares are percentages: what the weights ask for and what clicks actually got
+  expectedShare: number;
+  clicks: number;
+  actualShare: number;
+  mobileShare: number;
+  topSource: string;
+}
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet';
+
+export interface UserAgentInfo {
+  browser: string;
+  os: string;
+  deviceType: DeviceType;
+  isBot: boolean;
+}
+
+export type TimeGranularity = 'hour' | 'day' | 'week';
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface TimeBucket {
+  start: Date;
+  count: number;
+}
+
+export type DateRangePreset = '24h' | '7d' | '30d' | 'all' | 'custom';
+
+export interface DateRangeFilter {
+  preset: DateRangePreset;
+  customStart: string;
+  customEnd: string;
+  granularity: TimeGranularity;
+  compare: boolean;
+}
+
+export type ReferrerChannel = 'direct' | 'social' | 'search' | 'referral';
+
+export interface ReferrerInfo {
+  domain: string;
+  source: string;
+  channel: ReferrerChannel;
+}
+
+export type ShortCodeStrategy = 'random' | 'sequential';
+
+export interface ShortCodeGeneratorConfig {
+  strategy: ShortCodeStrategy;
+  length: number;
+  alphabet: string;
+}
+
+export interface ShortCodeGenerator {
+  readonly strategy: ShortCodeStrategy;
+  readonly alphabet: string;
+  generate(length: number): string;
+  observe(shortCode: string): void;
+}
+
+export interface PolicyConfig {
+  maxActiveUrls: number;
+  defaultExpiryMinutes: number;
+  minExpiryMinutes: number;
+  maxExpiryMinutes: number;
+  reservedWords: string[];
+  roleQuotas: Partial<Record<UserRole, number>>;
+  shortCode: ShortCodeGeneratorConfig;
+  urlRules: UrlRulesConfig;
+}
+
+export type PolicySource = Partial<Omit<PolicyConfig, 'shortCode' | 'urlRules'>> & {
+  shortCode?: Partial<ShortCodeGeneratorConfig>;
+  urlRules?: Partial<UrlRulesConfig>;
+};
+
+export type UserRole = 'admin' | 'user';
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  passwordHash: PasswordHash;
+  quota?: number;
+  createdAt: Date;
+}
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export interface UserUpdate {
+  role?: UserRole;
+  quota?: number | null;
+}
+
+export interface UserStore {
+  load(): Promise<User[]>;
+  save(users: User[]): Promise<void>;
+}
+
+export interface AuthClient {
+  getCurrentUser(): Promise<PublicUser | null>;
+  signIn(username: string, password: string): Promise<PublicUser>;
+  register(username: string, password: string): Promise<PublicUser>;
+  signOut(): Promise<void>;
+  getUsers(): Promise<PublicUser[]>;
+  updateUser(id: string, update: UserUpdate): Promise<PublicUser>;
+}
+
+export type LinkSortOption = 'newest' | 'oldest' | 'most-clicks' | 'fewest-clicks' | 'expiring-soon' | 'expiring-last';
+
+export interface LinkListFilter {
+  search: string;
+  status: LinkStatus | 'all';
+  tag: string;
+  sort: LinkSortOption;
+}
+
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRRenderOptions {
+  size: number;
+  foreground: string;
+  background: string;
+}
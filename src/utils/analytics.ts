@@ -0,0 +1,81 @@
+import { BreakdownRow, ClickEvent, DeviceType, RedirectRule, SplitVariant, VariantStats } from '../types';
+import { parseUserAgent } from './userAgent';
+import { CHANNEL_LABELS, normalizeReferrer } from './referrer';
+import { getWeightShare } from './splitVariants';
+
+export const countBy = (clicks: ClickEvent[], getKeys: (click: ClickEvent) => string[]): BreakdownRow[] => {
+  const counts = new Map<string, number>();
+
+  clicks.forEach(click => {
+    getKeys(click).forEach(key => {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+
+  return Array.from(counts.entries())
+    .map(([label, count]) => ({
+      label,
+      count,
+      percentage: clicks.length > 0 ? Math.round((count / clicks.length) * 100) : 0
+    }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+export const getCampaignBreakdown = (clicks: ClickEvent[]): BreakdownRow[] =>
+  countBy(clicks, click =>
+    Object.entries(click.campaignParams || {}).map(([key, value]) => `${key}=${value}`)
+  );
+
+const DEVICE_LABELS: Record<DeviceType, string> = {
+  desktop: 'Desktop',
+  mobile: 'Mobile',
+  tablet: 'Tablet'
+};
+
+export const getBrowserBreakdown = (clicks: ClickEvent[]): BreakdownRow[] =>
+  countBy(clicks, click => [parseUserAgent(click.userAgent).browser]);
+
+export const getOsBreakdown = (clicks: ClickEvent[]): BreakdownRow[] =>
+  countBy(clicks, click => [parseUserAgent(click.userAgent).os]);
+
+export const getDeviceBreakdown = (clicks: ClickEvent[]): BreakdownRow[] =>
+  countBy(clicks, click => [DEVICE_LABELS[parseUserAgent(click.userAgent).deviceType]]);
+
+export const getBotBreakdown = (clicks: ClickEvent[]): BreakdownRow[] =>
+  countBy(clicks, click => [parseUserAgent(click.userAgent).isBot ? 'Bots & crawlers' : 'Humans']);
+
+export const getReferrerSourceBreakdown = (clicks: ClickEvent[]): BreakdownRow[] =>
+  countBy(clicks, click => [normalizeReferrer(click.referrer).source]);
+
+export const getReferrerChannelBreakdown = (clicks: ClickEvent[]): BreakdownRow[] =>
+  countBy(clicks, click => [CHANNEL_LABELS[normalizeReferrer(click.referrer).channel]]);
+
+// Clicks that matched no rule, or came before any rule existed, went to the link's own destination
+export const getRedirectRuleBreakdown = (clicks: ClickEvent[], rules: RedirectRule[] = []): BreakdownRow[] => {
+  const labels = new Map(rules.map((rule, index) => [rule.id, rule.label || `Rule ${index + 1}`]));
+  return countBy(clicks, click => [
+    click.ruleId ? labels.get(click.ruleId) || 'Removed rule' : 'Default destination'
+  ]);
+};
+
+const toPercentage = (count: number, total: number): number =>
+  total > 0 ? Math.round((count / total) * 100) : 0;
+
+// Shares are out of the clicks that went to a variant, so rule matches don't skew the comparison
+export const getVariantComparison = (clicks: ClickEvent[], variants: SplitVariant[] = []): VariantStats[] => {
+  const splitClicks = clicks.filter(click => click.variantId);
+
+  return variants.map(variant => {
+    const variantClicks = splitClicks.filter(click => click.variantId === variant.id);
+    const mobileClicks = variantClicks.filter(click => parseUserAgent(click.userAgent).deviceType !== 'desktop');
+
+    return {
+      variant,
+      expectedShare: getWeightShare(variant, variants),
+      clicks: variantClicks.length,
+      actualShare: toPercentage(variantClicks.length, splitClicks.length),
+      mobileShare: toPercentage(mobileClicks.length, variantClicks.length),
+      topSource: getReferrerSourceBreakdown(variantClicks)[0]?.label ?? '—'
+    };
+  });
+};
@@ -0,0 +1,38 @@
+// Parameters that only identify where a click came from, not which page it leads to
+const TRACKING_PARAM_PATTERNS = [
+  /^utm_/,
+  /^(fbclid|gclid|gclsrc|dclid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi)$/
+];
+
+const compareStrings = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+export const isTrackingParam = (name: string): boolean =>
+  TRACKING_PARAM_PATTERNS.some(pattern => pattern.test(name.toLowerCase()));
+
+// Two URLs with the same canonical form lead to the same page; unparseable input is returned unchanged
+export const canonicalizeUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  // URL parsing already lower-cases the scheme and host and drops default ports
+  parsed.hostname = parsed.hostname.replace(/\.$/, '');
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    // Sorting is stable, so repeated keys keep their relative order, which can matter to the target page
+    .sort(([a], [b]) => compareStrings(a, b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+  }
+
+  return parsed.toString();
+};
+
+export const isSameDestination = (a: string, b: string): boolean =>
+  canonicalizeUrl(a) === canonicalizeUrl(b);
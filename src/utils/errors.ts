@@ -0,0 +1,7 @@
+// Thrown for requests that are wrong as sent; the API answers these with 400 and anything else with 500
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -0,0 +1,34 @@
+import { parseCsv, parseImportFile, toCsv } from './importExport';
+
+describe('toCsv', () => {
+  it('quotes cells that contain separators, quotes or line breaks', () => {
+    expect(toCsv([['plain', 'a,b', 'say "hi"', 'two\nlines']])).toBe('plain,"a,b","say ""hi""","two\nlines"');
+  });
+
+  it('keeps visitor-supplied values from being read as spreadsheet formulas', () => {
+    const csv = toCsv([['=HYPERLINK("https://evil.example")', '+1', '-2', '@SUM(A1)', '\tx', 'https://ok.example/']]);
+
+    expect(parseCsv(csv)).toEqual([[
+      '\'=HYPERLINK("https://evil.example")',
+      '\'+1',
+      '\'-2',
+      '\'@SUM(A1)',
+      '\'\tx',
+      'https://ok.example/'
+    ]]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('reads a JSON array or an object with a urls list', () => {
+    expect(parseImportFile('["https://a.example/"]', 'json')).toEqual([{ row: 1, originalUrl: 'https://a.example/' }]);
+    expect(parseImportFile('{"urls":[{"url":"https://b.example/","code":"bee"}]}', 'json')[0]).toMatchObject({
+      originalUrl: 'https://b.example/',
+      customShortCode: 'bee'
+    });
+  });
+
+  it.each(['null', '42', '"https://a.example/"', '{"links":[]}'])('rejects %s as a JSON import', content => {
+    expect(() => parseImportFile(content, 'json')).toThrow('JSON import must be an array of links');
+  });
+});
@@ -0,0 +1,239 @@
+import { ImportRow, ImportResult, ShortenedURL, TransferFormat, URLClient } from '../types';
+import { validateUrl, validateShortCode, validateExpiryMinutes, validateTags } from './validation';
+import { formatTags, normalizeTags, parseTagInput } from './tags';
+import { logger } from './logger';
+
+const URL_COLUMNS = ['originalurl', 'url', 'destination'];
+const SHORT_CODE_COLUMNS = ['customshortcode', 'shortcode', 'code'];
+const EXPIRY_COLUMNS = ['expiryminutes', 'expiry', 'expires'];
+const TAG_COLUMNS = ['tags', 'tag'];
+// Visitors control user agents and referrers; a leading quote keeps spreadsheets from running them as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const detectFormat = (fileName: string, content: string): TransferFormat => {
+  if (fileName.toLowerCase().endsWith('.json')) return 'json';
+  if (fileName.toLowerCase().endsWith('.csv')) return 'csv';
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv';
+};
+
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const escapeCsvField = (value: unknown): string => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+
+const pickField = (record: Record<string, any>, columns: string[]): any => {
+  const key = Object.keys(record).find(k => columns.includes(k.toLowerCase().replace(/[\s_-]/g, '')));
+  return key === undefined ? undefined : record[key];
+};
+
+const toImportRow = (record: Record<string, any>, row: number): ImportRow => {
+  const customShortCode = pickField(record, SHORT_CODE_COLUMNS);
+  const expiryMinutes = pickField(record, EXPIRY_COLUMNS);
+  const tags = pickField(record, TAG_COLUMNS);
+
+  return {
+    row,
+    originalUrl: String(pickField(record, URL_COLUMNS) ?? '').trim(),
+    customShortCode: customShortCode ? String(customShortCode).trim() : undefined,
+    expiryMinutes: expiryMinutes === undefined || String(expiryMinutes).trim() === ''
+      ? undefined
+      : Number(expiryMinutes),
+    tags: Array.isArray(tags) ? normalizeTags(tags.map(String)) : parseTagInput(String(tags ?? ''))
+  };
+};
+
+export const parseImportFile = (content: string, format: TransferFormat): ImportRow[] => {
+  if (format === 'json') {
+    const parsed: unknown = JSON.parse(content);
+    // null, numbers and strings are valid JSON too, so check the shape before reading fields
+    const records = Array.isArray(parsed)
+      ? parsed
+      : typeof parsed === 'object' && parsed !== null ? (parsed as { urls?: unknown }).urls : undefined;
+    if (!Array.isArray(records)) {
+      throw new Error('JSON import must be an array of links');
+    }
+
+    return records.map((record, index) =>
+      typeof record === 'string'
+        ? { row: index + 1, originalUrl: record.trim() }
+        : toImportRow((record || {}) as Record<string, any>, index + 1)
+    );
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) return [];
+
+  // A headerless CSV is treated as a plain list of URLs
+  const hasHeader = header.some(cell =>
+    [...URL_COLUMNS, ...SHORT_CODE_COLUMNS, ...EXPIRY_COLUMNS, ...TAG_COLUMNS].includes(cell.toLowerCase().replace(/[\s_-]/g, ''))
+  );
+  if (!hasHeader) {
+    return [header, ...lines].map((cells, index) => ({ row: index + 1, originalUrl: cells[0].trim() }));
+  }
+
+  return lines.map((cells, index) => {
+    const record: Record<string, string> = {};
+    header.forEach((column, columnIndex) => {
+      record[column] = cells[columnIndex] ?? '';
+    });
+    // Row numbers match the spreadsheet, counting the header as row 1
+    return toImportRow(record, index + 2);
+  });
+};
+
+export const validateImportRow = (row: ImportRow): string[] => {
+  const errors = [...validateUrl(row.originalUrl).errors];
+
+  if (row.customShortCode) {
+    errors.push(...validateShortCode(row.customShortCode).errors);
+  }
+
+  if (row.expiryMinutes !== undefined) {
+    errors.push(...validateExpiryMinutes(row.expiryMinutes).errors);
+  }
+
+  if (row.tags) {
+    errors.push(...validateTags(row.tags).errors);
+  }
+
+  return errors;
+};
+
+export const importRows = async (rows: ImportRow[], client: URLClient): Promise<ImportResult[]> => {
+  const results: ImportResult[] = [];
+
+  // Sequential on purpose: duplicate codes and the concurrent limit depend on earlier rows
+  for (const row of rows) {
+    const errors = validateImportRow(row);
+    if (errors.length > 0) {
+      results.push({ row: row.row, originalUrl: row.originalUrl, success: false, errors });
+      continue;
+    }
+
+    try {
+      const shortenedUrl = await client.shortenUrl(row.originalUrl, row.customShortCode, row.expiryMinutes, {
+        tags: row.tags,
+        // Nobody can be asked mid-import: a repeated destination reuses the existing link unless a code was requested
+        onDuplicate: row.customShortCode ? 'create' : 'reuse'
+      });
+      results.push({ row: row.row, originalUrl: row.originalUrl, success: true, shortCode: shortenedUrl.shortCode, errors: [] });
+    } catch (error) {
+      results.push({
+        row: row.row,
+        originalUrl: row.originalUrl,
+        success: false,
+        errors: [error instanceof Error ? error.message : 'Unknown error']
+      });
+    }
+  }
+
+  logger.info('BULK_IMPORT_COMPLETED', {
+    total: results.length,
+    succeeded: results.filter(result => result.success).length,
+    failed: results.filter(result => !result.success).length
+  });
+
+  return results;
+};
+
+const URL_EXPORT_COLUMNS = ['id', 'originalUrl', 'shortCode', 'shortUrl', 'createdAt', 'expiresAt', 'isActive', 'clickCount', 'maxClicks', 'tags'];
+const CLICK_EXPORT_COLUMNS = ['clickId', 'clickTimestamp', 'clickUserAgent', 'clickReferrer', 'clickLocation'];
+
+export const exportUrls = (urls: ShortenedURL[], format: TransferFormat, includeClicks: boolean): string => {
+  if (format === 'json') {
+    // Password hashes never leave the app; the export only says whether a link has one
+    return JSON.stringify(
+      urls.map(({ clicks, password, ...url }) => ({ ...url, hasPassword: !!password, ...(includeClicks ? { clicks } : {}) })),
+      null,
+      2
+    );
+  }
+
+  const urlCells = (url: ShortenedURL) => [
+    url.id,
+    url.originalUrl,
+    url.shortCode,
+    url.shortUrl,
+    url.createdAt.toISOString(),
+    url.expiresAt.toISOString(),
+    url.isActive,
+    url.clickCount,
+    url.maxClicks,
+    formatTags(url.tags)
+  ];
+
+  if (!includeClicks) {
+    return toCsv([URL_EXPORT_COLUMNS, ...urls.map(urlCells)]);
+  }
+
+  // One row per click; links without clicks still get a single row
+  const rows: unknown[][] = [];
+  urls.forEach(url => {
+    if (url.clicks.length === 0) {
+      rows.push(urlCells(url));
+      return;
+    }
+    url.clicks.forEach(click => {
+      rows.push([
+        ...urlCells(url),
+        click.id,
+        click.timestamp.toISOString(),
+        click.userAgent,
+        click.referrer,
+        click.location
+      ]);
+    });
+  });
+
+  return toCsv([[...URL_EXPORT_COLUMNS, ...CLICK_EXPORT_COLUMNS], ...rows]);
+};
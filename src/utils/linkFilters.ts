@@ -0,0 +1,72 @@
+import { LinkListFilter, LinkSortOption, ShortenedURL } from '../types';
+import { getLinkStatus } from './linkStatus';
+
+export const DEFAULT_LINK_FILTER: LinkListFilter = {
+  search: '',
+  status: 'all',
+  tag: '',
+  sort: 'newest'
+};
+
+export const SORT_LABELS: Record<LinkSortOption, string> = {
+  'newest': 'Newest first',
+  'oldest': 'Oldest first',
+  'most-clicks': 'Most clicks',
+  'fewest-clicks': 'Fewest clicks',
+  'expiring-soon': 'Expiring soonest',
+  'expiring-last': 'Expiring last'
+};
+
+const STATUSES: LinkListFilter['status'][] = ['all', 'active', 'scheduled', 'expired', 'limit-reached'];
+
+const COMPARATORS: Record<LinkSortOption, (a: ShortenedURL, b: ShortenedURL) => number> = {
+  'newest': (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  'oldest': (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  'most-clicks': (a, b) => b.clickCount - a.clickCount,
+  'fewest-clicks': (a, b) => a.clickCount - b.clickCount,
+  'expiring-soon': (a, b) => a.expiresAt.getTime() - b.expiresAt.getTime(),
+  'expiring-last': (a, b) => b.expiresAt.getTime() - a.expiresAt.getTime()
+};
+
+export const matchesSearch = (url: ShortenedURL, search: string): boolean => {
+  const query = search.trim().toLowerCase();
+  if (!query) return true;
+
+  return url.shortCode.toLowerCase().includes(query) ||
+    url.originalUrl.toLowerCase().includes(query) ||
+    (url.tags || []).some(tag => tag.includes(query));
+};
+
+export const filterAndSortUrls = (urls: ShortenedURL[], filter: LinkListFilter): ShortenedURL[] =>
+  urls
+    .filter(url => matchesSearch(url, filter.search))
+    .filter(url => filter.status === 'all' || getLinkStatus(url) === filter.status)
+    .filter(url => !filter.tag || (url.tags || []).includes(filter.tag))
+    // Creation order breaks ties so equal counts or expiries keep a stable order
+    .sort((a, b) => COMPARATORS[filter.sort](a, b) || COMPARATORS.newest(a, b));
+
+export const getAllTags = (urls: ShortenedURL[]): string[] =>
+  Array.from(new Set(urls.flatMap(url => url.tags || []))).sort();
+
+// Unknown values fall back to the defaults so a hand-edited URL can't break the page
+export const readLinkFilter = (params: URLSearchParams): LinkListFilter => {
+  const status = params.get('status') as LinkListFilter['status'];
+  const sort = params.get('sort') as LinkSortOption;
+
+  return {
+    search: params.get('q') || DEFAULT_LINK_FILTER.search,
+    status: STATUSES.includes(status) ? status : DEFAULT_LINK_FILTER.status,
+    tag: params.get('tag') || DEFAULT_LINK_FILTER.tag,
+    sort: sort in SORT_LABELS ? sort : DEFAULT_LINK_FILTER.sort
+  };
+};
+
+// Defaults are left out to keep bookmarked URLs short
+export const writeLinkFilter = (filter: LinkListFilter): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filter.search) params.set('q', filter.search);
+  if (filter.status !== DEFAULT_LINK_FILTER.status) params.set('status', filter.status);
+  if (filter.tag) params.set('tag', filter.tag);
+  if (filter.sort !== DEFAULT_LINK_FILTER.sort) params.set('sort', filter.sort);
+  return params;
+};
@@ -0,0 +1,37 @@
+import { LinkStatus, ShortenedURL } from '../types';
+
+export const isClickLimitReached = (url: ShortenedURL): boolean =>
+  url.maxClicks !== undefined && url.clickCount >= url.maxClicks;
+
+export const isScheduled = (url: Pick<ShortenedURL, 'startsAt'>, now: Date = new Date()): boolean =>
+  url.startsAt !== undefined && url.startsAt > now;
+
+// Scheduled links only take up a concurrent slot once they go live
+export const countsTowardQuota = (url: Pick<ShortenedURL, 'isActive' | 'startsAt'>, now: Date = new Date()): boolean =>
+  url.isActive && !isScheduled(url, now);
+
+export const getLinkStatus = (url: ShortenedURL, now: Date = new Date()): LinkStatus => {
+  if (isClickLimitReached(url)) return 'limit-reached';
+  if (!url.isActive || url.expiresAt < now) return 'expired';
+  if (isScheduled(url, now)) return 'scheduled';
+  return 'active';
+};
+
+export const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  'limit-reached': 'Limit Reached'
+};
+
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
@@ -0,0 +1,52 @@
+import { LogEvent, LogExplorerFilter } from '../types';
+import { LOG_LEVELS } from './logTransports';
+import { toCsv } from './importExport';
+
+export const LOG_PAGE_SIZE = 50;
+
+export const DEFAULT_LOG_FILTER: LogExplorerFilter = {
+  levels: [...LOG_LEVELS],
+  action: '',
+  sessionId: '',
+  search: '',
+  from: '',
+  to: ''
+};
+
+// Stored events come back from JSON, so timestamps may be strings
+const getTime = (log: LogEvent): number => new Date(log.timestamp).getTime();
+
+export const filterLogs = (logs: LogEvent[], filter: LogExplorerFilter): LogEvent[] => {
+  const search = filter.search.trim().toLowerCase();
+  const sessionId = filter.sessionId.trim();
+  const from = filter.from ? new Date(filter.from).getTime() : -Infinity;
+  const to = filter.to ? new Date(filter.to).getTime() : Infinity;
+
+  return logs
+    .filter(log => filter.levels.includes(log.level))
+    .filter(log => !filter.action || log.action === filter.action)
+    .filter(log => !sessionId || log.sessionId.includes(sessionId))
+    .filter(log => getTime(log) >= from && getTime(log) <= to)
+    .filter(log => !search || JSON.stringify(log.details).toLowerCase().includes(search))
+    .sort((a, b) => getTime(b) - getTime(a));
+};
+
+export const getLogActions = (logs: LogEvent[]): string[] =>
+  Array.from(new Set(logs.map(log => log.action))).sort();
+
+export const exportLogsNdjson = (logs: LogEvent[]): string =>
+  logs.map(log => JSON.stringify(log)).join('\n');
+
+export const exportLogsCsv = (logs: LogEvent[]): string =>
+  toCsv([
+    ['id', 'timestamp', 'level', 'action', 'userId', 'sessionId', 'details'],
+    ...logs.map(log => [
+      log.id,
+      new Date(log.timestamp).toISOString(),
+      log.level,
+      log.action,
+      log.userId,
+      log.sessionId,
+      JSON.stringify(log.details)
+    ])
+  ]);
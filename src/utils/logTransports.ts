@@ -0,0 +1,138 @@
+import { LogEvent, LogLevel, LogTransport } from '../types';
+
+export const LOG_LEVELS: LogLevel[] = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+
+export const isLevelEnabled = (level: LogLevel, minLevel: LogLevel): boolean =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+
+export const parseLogLevel = (value: string | undefined, fallback: LogLevel): LogLevel => {
+  const level = value?.trim().toUpperCase() as LogLevel;
+  return LOG_LEVELS.includes(level) ? level : fallback;
+};
+
+export class ConsoleTransport implements LogTransport {
+  readonly name = 'console';
+
+  constructor(readonly minLevel: LogLevel = 'INFO') {}
+
+  write(event: LogEvent) {
+    const line = `[${event.timestamp.toISOString()}] ${event.level} ${event.action}`;
+    const method = event.level === 'ERROR' ? 'error' : event.level === 'WARN' ? 'warn' : event.level === 'DEBUG' ? 'debug' : 'info';
+    console[method](line, event.details);
+  }
+}
+
+export class MemoryTransport implements LogTransport {
+  readonly name = 'memory';
+  private events: LogEvent[] = [];
+
+  constructor(readonly minLevel: LogLevel = 'DEBUG', private maxEvents = 1000) {}
+
+  write(event: LogEvent) {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  getEvents(): LogEvent[] {
+    return [...this.events];
+  }
+}
+
+export class LocalStorageTransport implements LogTransport {
+  readonly name = 'localStorage';
+
+  constructor(
+    readonly minLevel: LogLevel = 'INFO',
+    private key = 'urlShortener_logs',
+    private maxEvents = 1000
+  ) {}
+
+  write(event: LogEvent) {
+    // The API server shares this logger but has no localStorage
+    if (typeof localStorage === 'undefined') return;
+
+    const existingLogs = this.getEvents();
+    existingLogs.push(event);
+
+    // Keep only the newest entries for performance
+    if (existingLogs.length > this.maxEvents) {
+      existingLogs.splice(0, existingLogs.length - this.maxEvents);
+    }
+
+    localStorage.setItem(this.key, JSON.stringify(existingLogs));
+  }
+
+  getEvents(): LogEvent[] {
+    if (typeof localStorage === 'undefined') return [];
+    return JSON.parse(localStorage.getItem(this.key) || '[]');
+  }
+}
+
+interface HttpBatchOptions {
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxQueuedEvents?: number;
+}
+
+// Posts events as a JSON array; a failed batch is put back in the queue and retried on the next tick
+export class HttpBatchTransport implements LogTransport {
+  readonly name = 'http';
+  private queue: LogEvent[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private sending = false;
+  private batchSize: number;
+  private flushIntervalMs: number;
+  private maxQueuedEvents: number;
+
+  constructor(private endpoint: string, readonly minLevel: LogLevel = 'INFO', options: HttpBatchOptions = {}) {
+    this.batchSize = options.batchSize ?? 20;
+    this.flushIntervalMs = options.flushIntervalMs ?? 5000;
+    this.maxQueuedEvents = options.maxQueuedEvents ?? 500;
+  }
+
+  write(event: LogEvent) {
+    this.queue.push(event);
+    // An unreachable collector must not grow memory without bound
+    if (this.queue.length > this.maxQueuedEvents) {
+      this.queue.splice(0, this.queue.length - this.maxQueuedEvents);
+    }
+
+    if (this.queue.length >= this.batchSize && !this.sending) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushIntervalMs);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.queue.length === 0 || this.sending) return;
+
+    const batch = this.queue.splice(0, this.batchSize);
+    this.sending = true;
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(batch),
+        keepalive: true
+      });
+      if (!response.ok) {
+        throw new Error(`Log collector responded with status ${response.status}`);
+      }
+    } catch {
+      this.queue.unshift(...batch);
+    } finally {
+      this.sending = false;
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushIntervalMs);
+    }
+  }
+}
@@ -1,11 +1,51 @@
-import { LogEvent } from '../types';
+import { LogEvent, LoggerConfig, LogLevel, LogTransport } from '../types';
+import {
+  ConsoleTransport,
+  HttpBatchTransport,
+  isLevelEnabled,
+  LocalStorageTransport,
+  MemoryTransport,
+  parseLogLevel
+} from './logTransports';
+import { DEFAULT_REDACT_KEYS, redactDetails } from './redaction';
+
+// LOG_STORE picks where events are kept (localStorage, memory or none) and LOG_LEVEL its minimum level;
+// console and collector transports are only added when their variables are set
+export const readLoggerEnv = (env: Record<string, string | undefined>, prefix = ''): LoggerConfig => {
+  const storeLevel = parseLogLevel(env[`${prefix}LOG_LEVEL`], 'INFO');
+  const store = env[`${prefix}LOG_STORE`] || (typeof localStorage === 'undefined' ? 'memory' : 'localStorage');
+  const transports: LogTransport[] = [];
+
+  if (store === 'localStorage') transports.push(new LocalStorageTransport(storeLevel));
+  if (store === 'memory') transports.push(new MemoryTransport(storeLevel));
+
+  const consoleLevel = env[`${prefix}LOG_CONSOLE_LEVEL`];
+  if (consoleLevel) {
+    transports.push(new ConsoleTransport(parseLogLevel(consoleLevel, 'INFO')));
+  }
+
+  const collectorUrl = env[`${prefix}LOG_COLLECTOR_URL`];
+  if (collectorUrl) {
+    transports.push(new HttpBatchTransport(collectorUrl, parseLogLevel(env[`${prefix}LOG_COLLECTOR_LEVEL`], storeLevel)));
+  }
+
+  const redactKeys = env[`${prefix}LOG_REDACT_KEYS`];
+  return {
+    transports,
+    redactKeys: [...DEFAULT_REDACT_KEYS, ...(redactKeys ? redactKeys.split(',').map(key => key.trim()).filter(Boolean) : [])]
+  };
+};
 
 class Logger {
-  private logs: LogEvent[] = [];
   private sessionId: string;
+  private userId?: string;
+  private transports: LogTransport[];
+  private redactKeys: string[];
 
-  constructor() {
+  constructor(config: LoggerConfig) {
     this.sessionId = this.generateSessionId();
+    this.transports = config.transports;
+    this.redactKeys = config.redactKeys;
   }
 
   private generateSessionId(): string {
@@ -13,7 +53,7 @@ class Logger {
   }
 
   private createLogEvent(
-    level: LogEvent['level'],
+    level: LogLevel,
     action: string,
     details: Record<string, any>
   ): LogEvent {
@@ -22,54 +62,61 @@ class Logger {
       timestamp: new Date(),
       level,
       action,
-      details: {
-        ...details,
-        jurisdiction: 'Hyderabad/Secunderabad, India',
-        compliance: 'Data processed under Indian IT Act 2000'
-      },
+      details,
+      userId: this.userId,
       sessionId: this.sessionId
     };
   }
 
+  configure(config: Partial<LoggerConfig>) {
+    this.transports = config.transports ?? this.transports;
+    this.redactKeys = config.redactKeys ?? this.redactKeys;
+  }
+
+  setUserId(userId?: string) {
+    this.userId = userId;
+  }
+
+  private log(level: LogLevel, action: string, details: Record<string, any>) {
+    const transports = this.transports.filter(transport => isLevelEnabled(level, transport.minLevel));
+    if (transports.length === 0) return;
+
+    // Redact once, before any transport can persist or send the event
+    const logEvent = this.createLogEvent(level, action, redactDetails(details, this.redactKeys));
+    transports.forEach(transport => {
+      try {
+        transport.write(logEvent);
+      } catch {
+        // A full or unavailable store must never break the action being logged
+      }
+    });
+  }
+
+  debug(action: string, details: Record<string, any> = {}) {
+    this.log('DEBUG', action, details);
+  }
+
   info(action: string, details: Record<string, any> = {}) {
-    const logEvent = this.createLogEvent('INFO', action, details);
-    this.logs.push(logEvent);
-    this.persistLog(logEvent);
+    this.log('INFO', action, details);
   }
 
   warn(action: string, details: Record<string, any> = {}) {
-    const logEvent = this.createLogEvent('WARN', action, details);
-    this.logs.push(logEvent);
-    this.persistLog(logEvent);
+    this.log('WARN', action, details);
   }
 
   error(action: string, details: Record<string, any> = {}) {
-    const logEvent = this.createLogEvent('ERROR', action, details);
-    this.logs.push(logEvent);
-    this.persistLog(logEvent);
-  }
-
-  private persistLog(logEvent: LogEvent) {
-    // Store in localStorage for demo purposes
-    // In production, this would send to a secure logging service
-    const existingLogs = JSON.parse(localStorage.getItem('urlShortener_logs') || '[]');
-    existingLogs.push(logEvent);
-    
-    // Keep only last 1000 logs for performance
-    if (existingLogs.length > 1000) {
-      existingLogs.splice(0, existingLogs.length - 1000);
-    }
-    
-    localStorage.setItem('urlShortener_logs', JSON.stringify(existingLogs));
+    this.log('ERROR', action, details);
   }
 
-  getLogs(): LogEvent[] {
-    return [...this.logs];
+  async flush(): Promise<void> {
+    await Promise.all(this.transports.map(transport => transport.flush?.()));
   }
 
+  // Events from the first transport that keeps them, normally localStorage in the browser
   getStoredLogs(): LogEvent[] {
-    return JSON.parse(localStorage.getItem('urlShortener_logs') || '[]');
+    const store = this.transports.find(transport => transport.getEvents);
+    return store?.getEvents?.() ?? [];
   }
 }
 
-export const logger = new Logger();
+export const logger = new Logger(readLoggerEnv(process.env, 'REACT_APP_'));
@@ -0,0 +1,57 @@
+import { PasswordHash } from '../types';
+
+const ITERATIONS = 100000;
+const SALT_BYTES = 16;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: ITERATIONS,
+    salt: toBase64(salt),
+    hash: toBase64(hash)
+  };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  if (!stored.hash || !stored.salt) return false;
+
+  const expected = fromBase64(stored.hash);
+  const actual = await derive(password, fromBase64(stored.salt), stored.iterations);
+
+  // Compare every byte so timing doesn't reveal how much of the hash matched
+  let diff = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected[i] ^ (actual[i] ?? 0);
+  }
+  return diff === 0;
+};
@@ -0,0 +1,193 @@
+import { PolicyConfig, PolicySource, PublicUser, ShortCodeGeneratorConfig } from '../types';
+import { logger } from './logger';
+
+export const DEFAULT_POLICY: PolicyConfig = {
+  maxActiveUrls: 5,
+  defaultExpiryMinutes: 30,
+  minExpiryMinutes: 1,
+  maxExpiryMinutes: 43200, // 30 days
+  reservedWords: ['admin', 'api', 'www', 'app', 'stats', 'analytics', 'statistics', 'logs'],
+  roleQuotas: {},
+  shortCode: {
+    strategy: 'random',
+    length: 6,
+    alphabet: 'base62'
+  },
+  urlRules: {
+    allowedDomains: [],
+    blockedDomains: [],
+    allowIpHosts: false,
+    allowPunycode: true,
+    selfHosts: []
+  }
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const pickPositiveInteger = (key: string, value: unknown, fallback: number): number => {
+  if (value === undefined) return fallback;
+  if (isPositiveInteger(value)) return value;
+
+  logger.warn('POLICY_VALUE_INVALID', { key, value });
+  return fallback;
+};
+
+const pickStringList = (key: string, value: unknown, fallback: string[]): string[] => {
+  if (value === undefined) return fallback;
+  if (Array.isArray(value) && value.every(entry => typeof entry === 'string')) {
+    return value.map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  }
+
+  logger.warn('POLICY_VALUE_INVALID', { key, value });
+  return fallback;
+};
+
+const pickBoolean = (key: string, value: unknown, fallback: boolean): boolean => {
+  if (value === undefined) return fallback;
+  if (typeof value === 'boolean') return value;
+
+  logger.warn('POLICY_VALUE_INVALID', { key, value });
+  return fallback;
+};
+
+export const parsePolicy = (source: PolicySource): PolicyConfig => {
+  const policy: PolicyConfig = {
+    maxActiveUrls: pickPositiveInteger('maxActiveUrls', source.maxActiveUrls, DEFAULT_POLICY.maxActiveUrls),
+    defaultExpiryMinutes: pickPositiveInteger('defaultExpiryMinutes', source.defaultExpiryMinutes, DEFAULT_POLICY.defaultExpiryMinutes),
+    minExpiryMinutes: pickPositiveInteger('minExpiryMinutes', source.minExpiryMinutes, DEFAULT_POLICY.minExpiryMinutes),
+    maxExpiryMinutes: pickPositiveInteger('maxExpiryMinutes', source.maxExpiryMinutes, DEFAULT_POLICY.maxExpiryMinutes),
+    reservedWords: pickStringList('reservedWords', source.reservedWords, DEFAULT_POLICY.reservedWords),
+    roleQuotas: {},
+    shortCode: {
+      strategy: source.shortCode?.strategy === 'sequential' ? 'sequential' : DEFAULT_POLICY.shortCode.strategy,
+      length: pickPositiveInteger('shortCode.length', source.shortCode?.length, DEFAULT_POLICY.shortCode.length),
+      alphabet: source.shortCode?.alphabet || DEFAULT_POLICY.shortCode.alphabet
+    },
+    urlRules: {
+      allowedDomains: pickStringList('urlRules.allowedDomains', source.urlRules?.allowedDomains, DEFAULT_POLICY.urlRules.allowedDomains),
+      blockedDomains: pickStringList('urlRules.blockedDomains', source.urlRules?.blockedDomains, DEFAULT_POLICY.urlRules.blockedDomains),
+      allowIpHosts: pickBoolean('urlRules.allowIpHosts', source.urlRules?.allowIpHosts, DEFAULT_POLICY.urlRules.allowIpHosts),
+      allowPunycode: pickBoolean('urlRules.allowPunycode', source.urlRules?.allowPunycode, DEFAULT_POLICY.urlRules.allowPunycode),
+      selfHosts: pickStringList('urlRules.selfHosts', source.urlRules?.selfHosts, DEFAULT_POLICY.urlRules.selfHosts)
+    }
+  };
+
+  if (source.roleQuotas !== undefined && typeof source.roleQuotas === 'object') {
+    Object.entries(source.roleQuotas).forEach(([role, quota]) => {
+      if (role !== 'admin' && role !== 'user') {
+        logger.warn('POLICY_VALUE_INVALID', { key: `roleQuotas.${role}`, value: quota });
+        return;
+      }
+      policy.roleQuotas[role] = pickPositiveInteger(`roleQuotas.${role}`, quota, policy.maxActiveUrls);
+    });
+  }
+
+  // The expiry bounds only make sense together, so an inconsistent set falls back as a whole
+  if (
+    policy.minExpiryMinutes > policy.maxExpiryMinutes ||
+    policy.defaultExpiryMinutes < policy.minExpiryMinutes ||
+    policy.defaultExpiryMinutes > policy.maxExpiryMinutes
+  ) {
+    logger.warn('POLICY_VALUE_INVALID', {
+      key: 'expiryMinutes',
+      value: [policy.minExpiryMinutes, policy.defaultExpiryMinutes, policy.maxExpiryMinutes]
+    });
+    policy.minExpiryMinutes = DEFAULT_POLICY.minExpiryMinutes;
+    policy.defaultExpiryMinutes = DEFAULT_POLICY.defaultExpiryMinutes;
+    policy.maxExpiryMinutes = DEFAULT_POLICY.maxExpiryMinutes;
+  }
+
+  return policy;
+};
+
+const toNumber = (value?: string): number | undefined =>
+  value === undefined || value.trim() === '' ? undefined : Number(value);
+
+const toBoolean = (value?: string): boolean | undefined =>
+  value === undefined || value.trim() === '' ? undefined : value.trim().toLowerCase() === 'true';
+
+const toList = (value?: string): string[] | undefined =>
+  value === undefined ? undefined : value.split(',');
+
+const withoutUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+
+export const mergePolicySources = (...sources: PolicySource[]): PolicySource =>
+  sources.reduce<PolicySource>((merged, source) => ({
+    ...merged,
+    ...withoutUndefined(source),
+    roleQuotas: { ...merged.roleQuotas, ...source.roleQuotas },
+    shortCode: { ...merged.shortCode, ...withoutUndefined(source.shortCode || {}) },
+    urlRules: { ...merged.urlRules, ...withoutUndefined(source.urlRules || {}) }
+  }), {});
+
+// Reads POLICY (a JSON document) plus one variable per setting; the individual variables win
+export const readPolicyEnv = (env: Record<string, string | undefined>, prefix = ''): PolicySource => {
+  let source: PolicySource = {};
+  const json = env[`${prefix}POLICY`];
+  if (json) {
+    try {
+      source = JSON.parse(json);
+    } catch (error) {
+      logger.error('POLICY_PARSE_ERROR', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return mergePolicySources(source, {
+    maxActiveUrls: toNumber(env[`${prefix}MAX_ACTIVE_URLS`]),
+    defaultExpiryMinutes: toNumber(env[`${prefix}DEFAULT_EXPIRY_MINUTES`]),
+    minExpiryMinutes: toNumber(env[`${prefix}MIN_EXPIRY_MINUTES`]),
+    maxExpiryMinutes: toNumber(env[`${prefix}MAX_EXPIRY_MINUTES`]),
+    roleQuotas: withoutUndefined({
+      admin: toNumber(env[`${prefix}ADMIN_QUOTA`]),
+      user: toNumber(env[`${prefix}USER_QUOTA`])
+    }),
+    reservedWords: toList(env[`${prefix}RESERVED_WORDS`]),
+    shortCode: {
+      strategy: env[`${prefix}SHORT_CODE_STRATEGY`] as ShortCodeGeneratorConfig['strategy'] | undefined,
+      length: toNumber(env[`${prefix}SHORT_CODE_LENGTH`]),
+      alphabet: env[`${prefix}SHORT_CODE_ALPHABET`]
+    },
+    urlRules: {
+      allowedDomains: toList(env[`${prefix}ALLOWED_DOMAINS`]),
+      blockedDomains: toList(env[`${prefix}BLOCKED_DOMAINS`]),
+      allowIpHosts: toBoolean(env[`${prefix}ALLOW_IP_HOSTS`]),
+      allowPunycode: toBoolean(env[`${prefix}ALLOW_PUNYCODE`]),
+      selfHosts: toList(env[`${prefix}SELF_HOSTS`])
+    }
+  });
+};
+
+let currentPolicy = parsePolicy(readPolicyEnv(process.env, 'REACT_APP_'));
+
+export const getPolicy = (): PolicyConfig => currentPolicy;
+
+export const configurePolicy = (source: PolicySource): PolicyConfig => {
+  currentPolicy = parsePolicy(source);
+  logger.info('POLICY_CONFIGURED', {
+    maxActiveUrls: currentPolicy.maxActiveUrls,
+    defaultExpiryMinutes: currentPolicy.defaultExpiryMinutes,
+    minExpiryMinutes: currentPolicy.minExpiryMinutes,
+    maxExpiryMinutes: currentPolicy.maxExpiryMinutes,
+    reservedWordCount: currentPolicy.reservedWords.length,
+    shortCodeStrategy: currentPolicy.shortCode.strategy,
+    allowedDomainCount: currentPolicy.urlRules.allowedDomains.length,
+    blockedDomainCount: currentPolicy.urlRules.blockedDomains.length
+  });
+  return currentPolicy;
+};
+
+// A per-user quota beats the role quota, which beats the global default
+export const getUserQuota = (user: PublicUser): number =>
+  user.quota ?? currentPolicy.roleQuotas[user.role] ?? currentPolicy.maxActiveUrls;
+
+export const isReservedWord = (shortCode: string): boolean =>
+  currentPolicy.reservedWords.includes(shortCode.toLowerCase());
+
+export const formatMinutes = (minutes: number): string => {
+  const units: [number, string][] = [[1440, 'day'], [60, 'hour'], [1, 'minute']];
+  const [size, unit] = units.find(([unitSize]) => minutes % unitSize === 0) as [number, string];
+  const count = minutes / size;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
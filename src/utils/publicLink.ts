@@ -0,0 +1,20 @@
+import { PublicLink, ShortenedURL } from '../types';
+
+// Protected links reveal where they go only after unlocking, scheduled ones only after launch
+export const toPublicLink = (url: ShortenedURL, revealDestination: boolean): PublicLink => ({
+  id: url.id,
+  shortCode: url.shortCode,
+  originalUrl: revealDestination ? url.originalUrl : '',
+  hasPassword: !!url.password,
+  startsAt: url.startsAt,
+  prelaunchUrl: url.prelaunchUrl,
+  queryPassthrough: url.queryPassthrough,
+  redirectRules: revealDestination ? url.redirectRules : [],
+  splitVariants: revealDestination ? url.splitVariants : [],
+  redirectOptions: url.redirectOptions
+});
+
+export const revivePublicLink = (link: PublicLink): PublicLink => ({
+  ...link,
+  startsAt: link.startsAt !== undefined ? new Date(link.startsAt) : undefined
+});
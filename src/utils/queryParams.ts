@@ -0,0 +1,60 @@
+import { ShortenedURL, UtmParams } from '../types';
+
+const CAMPAIGN_PARAM_PATTERN = /^(utm_[a-z_]+|ref)$/i;
+
+export const appendUtmParams = (destination: string, utm: UtmParams): string => {
+  const url = new URL(destination);
+  const entries: [string, string][] = [
+    ['utm_source', utm.source],
+    ['utm_medium', utm.medium],
+    ['utm_campaign', utm.campaign]
+  ];
+
+  entries.forEach(([key, value]) => {
+    if (value.trim()) {
+      url.searchParams.set(key, value.trim());
+    }
+  });
+
+  return url.toString();
+};
+
+// target defaults to the link's own URL; a matched redirect rule passes its destination instead
+export const buildDestinationUrl = (
+  url: Pick<ShortenedURL, 'originalUrl' | 'queryPassthrough'>,
+  incomingSearch: string,
+  incomingHash = '',
+  target = url.originalUrl
+): string => {
+  if (!url.queryPassthrough) return target;
+
+  const destination = new URL(target);
+  const incoming = new URLSearchParams(incomingSearch);
+  const incomingWins = url.queryPassthrough === 'incoming-wins';
+
+  // Keys are merged as whole groups so repeated params like ?tag=a&tag=b stay together
+  Array.from(new Set(incoming.keys())).forEach(key => {
+    if (destination.searchParams.has(key) && !incomingWins) return;
+
+    destination.searchParams.delete(key);
+    incoming.getAll(key).forEach(value => destination.searchParams.append(key, value));
+  });
+
+  if (incomingHash && (incomingWins || !destination.hash)) {
+    destination.hash = incomingHash;
+  }
+
+  return destination.toString();
+};
+
+export const extractCampaignParams = (search: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+
+  new URLSearchParams(search).forEach((value, key) => {
+    if (CAMPAIGN_PARAM_PATTERN.test(key) && value) {
+      params[key.toLowerCase()] = value.substring(0, 100);
+    }
+  });
+
+  return params;
+};
@@ -0,0 +1,51 @@
+export const REDACTED = '[REDACTED]';
+
+export const DEFAULT_REDACT_KEYS = [
+  'password',
+  'passwordhash',
+  'hash',
+  'salt',
+  'token',
+  'secret',
+  'authorization',
+  'cookie',
+  'apikey'
+];
+
+// Query parameters whose values are credentials, e.g. ?token=... or &api_key=...
+const SECRET_QUERY_PARAMS = new RegExp(
+  '([?&#;](?:access_token|refresh_token|id_token|token|auth|authorization|secret|client_secret|password|passwd|pwd|pass|' +
+  'api_key|apikey|key|sig|signature|session|sessionid|session_id|code|otp)=)[^&#\\s"\']*',
+  'gi'
+);
+const URL_CREDENTIALS = /(\/\/)[^/?#@\s:]+:[^/?#@\s]*@/g;
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[\s_-]/g, '');
+
+export const redactString = (value: string): string =>
+  value
+    .replace(URL_CREDENTIALS, `$1${REDACTED}@`)
+    .replace(SECRET_QUERY_PARAMS, `$1${REDACTED}`)
+    .replace(EMAIL, email => `***@${email.split('@')[1]}`);
+
+export const redactValue = (value: unknown, keys: string[]): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (value instanceof Date) return value;
+  if (Array.isArray(value)) return value.map(entry => redactValue(entry, keys));
+  if (value && typeof value === 'object') return redactDetails(value as Record<string, any>, keys);
+  return value;
+};
+
+// Keys are matched ignoring case, spaces, dashes and underscores, so "api_key" also covers "apiKey"
+export const redactDetails = (
+  details: Record<string, any>,
+  keys: string[] = DEFAULT_REDACT_KEYS
+): Record<string, any> => {
+  const sensitive = new Set(keys.map(normalizeKey));
+
+  return Object.fromEntries(Object.entries(details).map(([key, value]) => [
+    key,
+    sensitive.has(normalizeKey(key)) && value !== undefined && value !== null ? REDACTED : redactValue(value, keys)
+  ]));
+};
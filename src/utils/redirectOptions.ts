@@ -0,0 +1,65 @@
+import { RedirectMode, RedirectOptions, ShortenedURL } from '../types';
+import { ValidationError } from './errors';
+
+export const MAX_COUNTDOWN_SECONDS = 30;
+export const REDIRECT_MODES: RedirectMode[] = ['instant', 'timed', 'click-through'];
+
+export const REDIRECT_MODE_LABELS: Record<RedirectMode, string> = {
+  instant: 'Instant - go straight to the destination',
+  timed: 'Timed - show a countdown the visitor can cancel',
+  'click-through': 'Click-through - warn about an unverified destination'
+};
+
+// Links saved before redirect modes existed keep the original 2-second interstitial
+export const DEFAULT_REDIRECT_OPTIONS: RedirectOptions = {
+  mode: 'timed',
+  countdownSeconds: 2,
+  stripReferrer: false,
+  showPreview: false
+};
+
+export const getRedirectOptions = (url: Pick<ShortenedURL, 'redirectOptions'>): RedirectOptions => url.redirectOptions ?? DEFAULT_REDIRECT_OPTIONS;
+
+// Options arrive from request bodies and rollbacks, so keep only the known fields with the right shapes
+export const sanitizeRedirectOptions = (value: unknown): RedirectOptions => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Redirect options must be an object');
+  }
+  const options = value as Record<string, unknown>;
+
+  return {
+    mode: String(options.mode ?? DEFAULT_REDIRECT_OPTIONS.mode) as RedirectMode,
+    countdownSeconds: options.countdownSeconds !== undefined
+      ? Number(options.countdownSeconds)
+      : DEFAULT_REDIRECT_OPTIONS.countdownSeconds,
+    stripReferrer: Boolean(options.stripReferrer),
+    showPreview: Boolean(options.showPreview)
+  };
+};
+
+export const isDefaultRedirectOptions = (options: RedirectOptions): boolean =>
+  formatRedirectOptions(options) === formatRedirectOptions(DEFAULT_REDIRECT_OPTIONS);
+
+// Revision history stores options as JSON text; links without options store an empty string
+export const formatRedirectOptions = (options?: RedirectOptions): string =>
+  options ? JSON.stringify(sanitizeRedirectOptions(options)) : '';
+
+// null clears the options, which is what rolling back to a link that never had any needs
+export const parseRedirectOptions = (value: string): RedirectOptions | null =>
+  value ? sanitizeRedirectOptions(JSON.parse(value)) : null;
+
+export const describeRedirectOptions = (options: RedirectOptions): string =>
+  [
+    options.mode === 'timed' ? `timed (${options.countdownSeconds}s)` : options.mode,
+    options.stripReferrer ? 'no referrer' : '',
+    options.showPreview ? 'preview' : ''
+  ].filter(Boolean).join(', ');
+
+export const getDestinationPreview = (destination: string): { hostname: string; isSecure: boolean } => {
+  try {
+    const url = new URL(destination);
+    return { hostname: url.hostname, isSecure: url.protocol === 'https:' };
+  } catch {
+    return { hostname: destination, isSecure: false };
+  }
+};
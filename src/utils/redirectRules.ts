@@ -0,0 +1,148 @@
+import { DeviceType, RedirectContext, RedirectResolution, RedirectRule, ShortenedURL } from '../types';
+import { parseUserAgent } from './userAgent';
+import { extractReferrerDomain } from './referrer';
+import { pickVariant } from './splitVariants';
+import { ValidationError } from './errors';
+
+export const MAX_REDIRECT_RULES = 20;
+export const RULE_DEVICE_TYPES: DeviceType[] = ['desktop', 'mobile', 'tablet'];
+export const RULE_OS_OPTIONS = ['iOS', 'Android', 'Windows', 'macOS', 'Linux', 'Chrome OS', 'Windows Phone'];
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const createRuleId = (): string => `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "hi-IN,hi;q=0.9,en;q=0.8" -> ['hi-in', 'hi', 'en']
+export const parseAcceptLanguage = (header: string): string[] =>
+  header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(entry => entry.tag && entry.tag !== '*' && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(entry => entry.tag);
+
+// Unset criteria are left out entirely rather than stored as empty lists
+const toList = (value: unknown): string[] | undefined => {
+  const list = Array.isArray(value) ? value.map(item => String(item).trim()).filter(Boolean) : [];
+  return list.length > 0 ? list : undefined;
+};
+
+const toHour = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+// Rules arrive from request bodies and rollbacks, so keep only the known fields with the right shapes
+export const sanitizeRedirectRules = (value: unknown): RedirectRule[] => {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('Redirect rules must be a list');
+  }
+
+  return value.map((rule): RedirectRule => {
+    if (typeof rule !== 'object' || rule === null) {
+      throw new ValidationError('Each redirect rule must be an object');
+    }
+    return {
+      id: typeof rule.id === 'string' && rule.id ? rule.id : createRuleId(),
+      label: String(rule.label ?? '').trim(),
+      destination: String(rule.destination ?? '').trim(),
+      os: toList(rule.os),
+      devices: toList(rule.devices) as DeviceType[] | undefined,
+      languages: toList(rule.languages)?.map(language => language.toLowerCase()),
+      referrerDomains: toList(rule.referrerDomains)?.map(domain => domain.toLowerCase().replace(/^www\./, '')),
+      days: toList(rule.days)?.map(Number),
+      startHour: toHour(rule.startHour),
+      endHour: toHour(rule.endHour),
+      timeZone: rule.timeZone ? String(rule.timeZone) : undefined
+    };
+  });
+};
+
+// Revision history stores rules as JSON text; no rules is an empty string like no tags
+export const formatRedirectRules = (rules: RedirectRule[] = []): string =>
+  rules.length > 0 ? JSON.stringify(rules) : '';
+
+export const parseRedirectRules = (value: string): RedirectRule[] =>
+  value ? sanitizeRedirectRules(JSON.parse(value)) : [];
+
+const getZonedTime = (now: Date, timeZone = 'UTC'): { day: number; hour: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const weekday = parts.find(part => part.type === 'weekday')?.value || '';
+  const hour = Number(parts.find(part => part.type === 'hour')?.value);
+  return { day: WEEKDAY_LABELS.indexOf(weekday), hour };
+};
+
+const isWithinHours = (hour: number, startHour = 0, endHour = 24): boolean =>
+  startHour <= endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+
+// A language rule like "hi" covers regional variants such as "hi-IN"
+const matchesLanguage = (language: string | undefined, ruleLanguages: string[]): boolean =>
+  !!language && ruleLanguages.some(ruleLanguage => language === ruleLanguage || language.startsWith(`${ruleLanguage}-`));
+
+const matchesReferrer = (referrer: string, domains: string[]): boolean => {
+  const host = extractReferrerDomain(referrer);
+  return !!host && domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+};
+
+export const matchesRule = (rule: RedirectRule, context: RedirectContext): boolean => {
+  const agent = parseUserAgent(context.userAgent);
+
+  if (rule.os?.length && !rule.os.some(os => os.toLowerCase() === agent.os.toLowerCase())) return false;
+  if (rule.devices?.length && !rule.devices.includes(agent.deviceType)) return false;
+  // Only the visitor's first choice counts, so a fallback language deep in the list doesn't redirect them
+  if (rule.languages?.length && !matchesLanguage(context.languages[0], rule.languages)) return false;
+  if (rule.referrerDomains?.length && !matchesReferrer(context.referrer, rule.referrerDomains)) return false;
+
+  if (rule.days?.length || rule.startHour !== undefined || rule.endHour !== undefined) {
+    const { day, hour } = getZonedTime(context.now ?? new Date(), rule.timeZone);
+    if (rule.days?.length && !rule.days.includes(day)) return false;
+    if (!isWithinHours(hour, rule.startHour, rule.endHour)) return false;
+  }
+
+  return true;
+};
+
+// Rules are tried in order; what none of them claim goes to a split variant, or else the link's own destination
+export const resolveRedirect = (
+  url: Pick<ShortenedURL, 'id' | 'originalUrl' | 'redirectRules' | 'splitVariants'>,
+  context: RedirectContext
+): RedirectResolution => {
+  const rule = (url.redirectRules || []).find(candidate => matchesRule(candidate, context));
+  if (rule) return { destination: rule.destination, rule };
+
+  const variant = url.splitVariants?.length && context.visitorId
+    ? pickVariant(url.splitVariants, context.visitorId, url.id)
+    : undefined;
+  return variant ? { destination: variant.destination, variant } : { destination: url.originalUrl };
+};
+
+export const describeRule = (rule: RedirectRule): string => {
+  const criteria = [
+    rule.os?.length ? rule.os.join('/') : '',
+    rule.devices?.length ? rule.devices.join('/') : '',
+    rule.languages?.length ? `language ${rule.languages.join('/')}` : '',
+    rule.referrerDomains?.length ? `from ${rule.referrerDomains.join('/')}` : '',
+    rule.days?.length ? rule.days.map(day => WEEKDAY_LABELS[day]).join('/') : '',
+    rule.startHour !== undefined || rule.endHour !== undefined
+      ? `${rule.startHour ?? 0}:00–${rule.endHour ?? 24}:00${rule.timeZone ? ` ${rule.timeZone}` : ''}`
+      : ''
+  ].filter(Boolean);
+  return criteria.length > 0 ? criteria.join(', ') : 'every click';
+};
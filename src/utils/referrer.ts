@@ -0,0 +1,67 @@
+import { ReferrerChannel, ReferrerInfo } from '../types';
+
+interface KnownSource {
+  name: string;
+  channel: ReferrerChannel;
+  domains: string[];
+}
+
+const KNOWN_SOURCES: KnownSource[] = [
+  { name: 'Facebook', channel: 'social', domains: ['facebook.com', 'fb.com', 'fb.me', 'messenger.com'] },
+  { name: 'Twitter / X', channel: 'social', domains: ['twitter.com', 'x.com', 't.co'] },
+  { name: 'LinkedIn', channel: 'social', domains: ['linkedin.com', 'lnkd.in'] },
+  { name: 'Instagram', channel: 'social', domains: ['instagram.com'] },
+  { name: 'Reddit', channel: 'social', domains: ['reddit.com', 'redd.it'] },
+  { name: 'YouTube', channel: 'social', domains: ['youtube.com', 'youtu.be'] },
+  { name: 'Pinterest', channel: 'social', domains: ['pinterest.com', 'pin.it'] },
+  { name: 'TikTok', channel: 'social', domains: ['tiktok.com'] },
+  { name: 'WhatsApp', channel: 'social', domains: ['whatsapp.com', 'wa.me'] },
+  { name: 'Telegram', channel: 'social', domains: ['telegram.org', 't.me'] },
+  { name: 'Google', channel: 'search', domains: ['google.com', 'google.co.in', 'google.co.uk', 'google.de', 'google.fr'] },
+  { name: 'Bing', channel: 'search', domains: ['bing.com'] },
+  { name: 'DuckDuckGo', channel: 'search', domains: ['duckduckgo.com'] },
+  { name: 'Yahoo', channel: 'search', domains: ['yahoo.com', 'search.yahoo.com'] },
+  { name: 'Baidu', channel: 'search', domains: ['baidu.com'] },
+  { name: 'Yandex', channel: 'search', domains: ['yandex.com', 'yandex.ru'] },
+  { name: 'Ecosia', channel: 'search', domains: ['ecosia.org'] }
+];
+
+const DIRECT: ReferrerInfo = { domain: '', source: 'Direct', channel: 'direct' };
+
+export const CHANNEL_LABELS: Record<ReferrerChannel, string> = {
+  direct: 'Direct',
+  social: 'Social',
+  search: 'Search',
+  referral: 'Referral'
+};
+
+// Matches the domain itself or any subdomain, e.g. m.facebook.com or l.facebook.com
+const matchesDomain = (host: string, domain: string): boolean =>
+  host === domain || host.endsWith(`.${domain}`);
+
+export const extractReferrerDomain = (referrer: string): string => {
+  try {
+    return new URL(referrer).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+export const normalizeReferrer = (referrer: string): ReferrerInfo => {
+  if (!referrer.trim()) return DIRECT;
+
+  const domain = extractReferrerDomain(referrer);
+  if (!domain) return DIRECT;
+
+  const known = KNOWN_SOURCES.find(source => source.domains.some(d => matchesDomain(domain, d)));
+  if (known) {
+    return { domain, source: known.name, channel: known.channel };
+  }
+
+  // Regional search domains such as google.co.jp
+  if (/(^|\.)google\.[a-z.]+$/.test(domain)) {
+    return { domain, source: 'Google', channel: 'search' };
+  }
+
+  return { domain, source: domain, channel: 'referral' };
+};
@@ -0,0 +1,15 @@
+const SESSION_KEY = 'urlShortener_session';
+
+// Per tab on purpose: closing the tab signs the user out
+export const getSessionToken = (): string | null =>
+  typeof sessionStorage === 'undefined' ? null : sessionStorage.getItem(SESSION_KEY);
+
+export const setSessionToken = (token: string | null) => {
+  if (typeof sessionStorage === 'undefined') return;
+
+  if (token) {
+    sessionStorage.setItem(SESSION_KEY, token);
+  } else {
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+};
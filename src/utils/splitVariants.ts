@@ -0,0 +1,84 @@
+import { SplitVariant } from '../types';
+import { ValidationError } from './errors';
+
+export const MAX_SPLIT_VARIANTS = 10;
+export const VISITOR_COOKIE = 'urlShortener_visitor';
+const VISITOR_STORAGE_KEY = 'urlShortener_visitor';
+
+export const createVariantId = (): string => `variant_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const createVisitorId = (): string => `visitor_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// One id per browser; without localStorage every visit is a new visitor
+export const getBrowserVisitorId = (): string => {
+  if (typeof localStorage === 'undefined') return createVisitorId();
+
+  const stored = localStorage.getItem(VISITOR_STORAGE_KEY);
+  if (stored) return stored;
+
+  const visitorId = createVisitorId();
+  localStorage.setItem(VISITOR_STORAGE_KEY, visitorId);
+  return visitorId;
+};
+
+// FNV-1a: small, fast and the same in the browser and on the server
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// The bucket depends only on visitor and link, so a visitor keeps their variant until the weights change
+export const pickVariant = (variants: SplitVariant[], visitorId: string, linkId: string): SplitVariant | undefined => {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return undefined;
+
+  let bucket = (hashString(`${visitorId}:${linkId}`) / 0x100000000) * totalWeight;
+  return variants.find(variant => {
+    bucket -= variant.weight;
+    return bucket < 0;
+  }) ?? variants[variants.length - 1];
+};
+
+export const getVariantLabel = (variant: SplitVariant, index: number): string =>
+  variant.label || `Variant ${String.fromCharCode(65 + index)}`;
+
+export const getWeightShare = (variant: SplitVariant, variants: SplitVariant[]): number => {
+  const totalWeight = variants.reduce((sum, item) => sum + item.weight, 0);
+  return totalWeight > 0 ? Math.round((variant.weight / totalWeight) * 100) : 0;
+};
+
+// Variants arrive from request bodies and rollbacks, so keep only the known fields with the right shapes
+export const sanitizeSplitVariants = (value: unknown): SplitVariant[] => {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('Split variants must be a list');
+  }
+
+  return value.map((variant): SplitVariant => {
+    if (typeof variant !== 'object' || variant === null) {
+      throw new ValidationError('Each split variant must be an object');
+    }
+    return {
+      id: typeof variant.id === 'string' && variant.id ? variant.id : createVariantId(),
+      label: String(variant.label ?? '').trim(),
+      destination: String(variant.destination ?? '').trim(),
+      weight: Number(variant.weight)
+    };
+  });
+};
+
+// Revision history stores variants as JSON text, the same way as redirect rules
+export const formatSplitVariants = (variants: SplitVariant[] = []): string =>
+  variants.length > 0 ? JSON.stringify(variants) : '';
+
+export const parseSplitVariants = (value: string): SplitVariant[] =>
+  value ? sanitizeSplitVariants(JSON.parse(value)) : [];
+
+export const getVisitorIdFromCookie = (cookieHeader: string): string | undefined =>
+  cookieHeader
+    .split(';')
+    .map(part => part.trim().split('='))
+    .find(([name]) => name === VISITOR_COOKIE)?.[1];
@@ -0,0 +1,14 @@
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+
+// Tags are compared case-insensitively, so store them lower-case with dashes for spaces
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(
+    tags
+      .map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+      .filter(Boolean)
+  ));
+
+export const parseTagInput = (input: string): string[] => normalizeTags(input.split(','));
+
+export const formatTags = (tags: string[] = []): string => tags.join(', ');
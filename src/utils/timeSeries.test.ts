@@ -0,0 +1,34 @@
+import { ClickEvent } from '../types';
+import { bucketClicks, MAX_BUCKETS, pickGranularity, startOfBucket } from './timeSeries';
+
+const click = (timestamp: Date): ClickEvent => ({
+  id: `click_${timestamp.getTime()}`,
+  timestamp,
+  userAgent: 'test',
+  ipAddress: '',
+  referrer: '',
+  location: ''
+});
+
+describe('bucketClicks', () => {
+  it('draws one bucket per step of a short range', () => {
+    const range = { start: new Date(2024, 0, 1, 9), end: new Date(2024, 0, 1, 12, 30) };
+    const buckets = bucketClicks([click(new Date(2024, 0, 1, 10, 15)), click(new Date(2024, 0, 1, 10, 45))], range, 'hour');
+
+    expect(buckets.map(bucket => bucket.count)).toEqual([0, 2, 0, 0]);
+  });
+
+  it('keeps only the most recent buckets when even weeks are too many', () => {
+    const range = { start: new Date(1900, 0, 1), end: new Date(2024, 5, 15, 12) };
+    const granularity = pickGranularity(range, 'hour');
+    expect(granularity).toBe('week');
+
+    const recent = new Date(2024, 5, 14);
+    const buckets = bucketClicks([click(new Date(1950, 0, 1)), click(recent)], range, granularity);
+
+    expect(buckets).toHaveLength(MAX_BUCKETS);
+    expect(buckets[buckets.length - 1].start).toEqual(startOfBucket(range.end, 'week'));
+    expect(buckets.reduce((total, bucket) => total + bucket.count, 0)).toBe(1);
+    expect(buckets[buckets.length - 1].count).toBe(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { ClickEvent, DateRange, DateRangeFilter, TimeBucket, TimeGranularity } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+export const MAX_BUCKETS = 400;
+
+const GRANULARITY_ORDER: TimeGranularity[] = ['hour', 'day', 'week'];
+
+// Buckets follow local time so a "day" matches what the user sees on the clock
+export const startOfBucket = (date: Date, granularity: TimeGranularity): Date => {
+  const start = new Date(date);
+  start.setMinutes(0, 0, 0);
+  if (granularity === 'hour') return start;
+
+  start.setHours(0);
+  if (granularity === 'day') return start;
+
+  // Weeks start on Monday
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - daysSinceMonday);
+  return start;
+};
+
+const nextBucket = (date: Date, granularity: TimeGranularity): Date => {
+  const next = new Date(date);
+  if (granularity === 'hour') {
+    next.setHours(next.getHours() + 1);
+  } else {
+    next.setDate(next.getDate() + (granularity === 'day' ? 1 : 7));
+  }
+  return next;
+};
+
+const approximateBucketMs: Record<TimeGranularity, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS
+};
+
+// Falls back to a coarser granularity when the preferred one would draw too many bars
+export const pickGranularity = (range: DateRange, preferred: TimeGranularity): TimeGranularity => {
+  const span = range.end.getTime() - range.start.getTime();
+  const candidates = GRANULARITY_ORDER.slice(GRANULARITY_ORDER.indexOf(preferred));
+  return candidates.find(g => span / approximateBucketMs[g] <= MAX_BUCKETS) || 'week';
+};
+
+const PRESET_SPANS_MS: Record<'24h' | '7d' | '30d', number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS
+};
+
+export const resolveDateRange = (filter: DateRangeFilter, earliest: Date, now: Date = new Date()): DateRange => {
+  if (filter.preset === 'all') {
+    return { start: earliest < now ? earliest : new Date(now.getTime() - DAY_MS), end: now };
+  }
+
+  if (filter.preset === 'custom') {
+    // Date inputs give yyyy-mm-dd; the end date is inclusive of the whole day
+    const start = filter.customStart ? new Date(`${filter.customStart}T00:00:00`) : earliest;
+    const end = filter.customEnd ? new Date(`${filter.customEnd}T23:59:59.999`) : now;
+    return start <= end ? { start, end } : { start: end, end: start };
+  }
+
+  return { start: new Date(now.getTime() - PRESET_SPANS_MS[filter.preset]), end: now };
+};
+
+export const isInRange = (date: Date, range: DateRange): boolean =>
+  date >= range.start && date <= range.end;
+
+export const filterClicksByRange = (clicks: ClickEvent[], range: DateRange): ClickEvent[] =>
+  clicks.filter(click => isInRange(click.timestamp, range));
+
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const span = range.end.getTime() - range.start.getTime();
+  return {
+    start: new Date(range.start.getTime() - span - 1),
+    end: new Date(range.start.getTime() - 1)
+  };
+};
+
+export const bucketClicks = (
+  clicks: ClickEvent[],
+  range: DateRange,
+  granularity: TimeGranularity
+): TimeBucket[] => {
+  const allBuckets: TimeBucket[] = [];
+  // Ranges too long even for weekly bars keep only their most recent MAX_BUCKETS
+  const firstStart = startOfBucket(range.start, granularity);
+  const earliestShown = startOfBucket(
+    new Date(range.end.getTime() - MAX_BUCKETS * approximateBucketMs[granularity]),
+    granularity
+  );
+
+  for (
+    let cursor = firstStart > earliestShown ? firstStart : earliestShown;
+    cursor <= range.end;
+    cursor = nextBucket(cursor, granularity)
+  ) {
+    allBuckets.push({ start: cursor, count: 0 });
+  }
+
+  const buckets = allBuckets.slice(-MAX_BUCKETS);
+  const indexByStart = new Map(buckets.map((bucket, index) => [bucket.start.getTime(), index]));
+
+  filterClicksByRange(clicks, range).forEach(click => {
+    const index = indexByStart.get(startOfBucket(click.timestamp, granularity).getTime());
+    if (index !== undefined) {
+      buckets[index].count++;
+    }
+  });
+
+  return buckets;
+};
+
+export const formatBucketLabel = (date: Date, granularity: TimeGranularity): string =>
+  granularity === 'hour'
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const getPercentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 100);
@@ -0,0 +1,39 @@
+import { UrlRulesConfig } from '../types';
+import { evaluateUrlRules, matchesDomain } from './urlRules';
+
+const rules = (overrides: Partial<UrlRulesConfig> = {}): UrlRulesConfig => ({
+  allowedDomains: [],
+  blockedDomains: [],
+  allowIpHosts: false,
+  allowPunycode: true,
+  selfHosts: [],
+  ...overrides
+});
+
+const codes = (url: string, config: UrlRulesConfig) => evaluateUrlRules(new URL(url), config).map(r => r.code);
+
+describe('self-referential links', () => {
+  it('catches the shortener host however it is written', () => {
+    const config = rules({ selfHosts: ['Short.Example'] });
+
+    expect(codes('https://short.example/abc', config)).toEqual(['self-referential']);
+    expect(codes('https://SHORT.example./abc', config)).toEqual(['self-referential']);
+    expect(codes('https://short.example.:8443/abc', config)).toEqual(['self-referential']);
+    expect(codes('https://other.example/abc', config)).toEqual([]);
+  });
+
+  it('only matches the configured port when one is given', () => {
+    const config = rules({ selfHosts: ['short.example:3000'] });
+
+    expect(codes('http://short.example.:3000/abc', config)).toEqual(['self-referential']);
+    expect(codes('http://short.example:4000/abc', config)).toEqual([]);
+  });
+});
+
+describe('matchesDomain', () => {
+  it('treats a trailing dot as the same host', () => {
+    expect(matchesDomain('example.com.', 'example.com')).toBe(true);
+    expect(matchesDomain('cdn.example.com.', '*.example.com')).toBe(true);
+    expect(matchesDomain('example.com.', '*.example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+import { UrlRejection, UrlRulesConfig } from '../types';
+import { getPolicy } from './policy';
+
+type UrlRule = (url: URL, rules: UrlRulesConfig) => UrlRejection | null;
+
+// RFC 3492 parameters for IDNA punycode
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+const MAX_CODE_POINT = 0x10ffff;
+
+const adaptBias = (delta: number, pointCount: number, firstTime: boolean): number => {
+  let scaled = firstTime ? Math.floor(delta / DAMP) : Math.floor(delta / 2);
+  scaled += Math.floor(scaled / pointCount);
+
+  let k = 0;
+  while (scaled > ((BASE - T_MIN) * T_MAX) / 2) {
+    scaled = Math.floor(scaled / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * scaled) / (scaled + SKEW));
+};
+
+const digitValue = (char: string): number => {
+  if (char >= '0' && char <= '9') return char.charCodeAt(0) - 22;
+  if (char >= 'a' && char <= 'z') return char.charCodeAt(0) - 97;
+  if (char >= 'A' && char <= 'Z') return char.charCodeAt(0) - 65;
+  return BASE;
+};
+
+// Decodes one label without its xn-- prefix; null means the label is not valid punycode
+export const decodePunycode = (input: string): string | null => {
+  const delimiter = input.lastIndexOf('-');
+  const output = Array.from(input.slice(0, Math.max(delimiter, 0))).map(char => char.charCodeAt(0));
+  if (output.some(code => code >= INITIAL_N)) return null;
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+
+  for (let index = delimiter > 0 ? delimiter + 1 : 0; index < input.length;) {
+    const previousI = i;
+
+    for (let weight = 1, k = BASE; ; k += BASE) {
+      if (index >= input.length) return null;
+      const digit = digitValue(input[index++]);
+      if (digit >= BASE) return null;
+
+      i += digit * weight;
+      const threshold = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (digit < threshold) break;
+      weight *= BASE - threshold;
+    }
+
+    bias = adaptBias(i - previousI, output.length + 1, previousI === 0);
+    n += Math.floor(i / (output.length + 1));
+    if (n > MAX_CODE_POINT) return null;
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+};
+
+const SCRIPTS: [string, RegExp][] = [
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['armenian', /\p{Script=Armenian}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Bopomofo}]/u]
+];
+
+// Cyrillic and Greek letters that render like Latin ones, e.g. "аррӏе" spelled entirely in Cyrillic
+const LATIN_LOOKALIKES = new Set(Array.from('аеорсухіјѕԁӏһԛԝɡкмнтвαορτυνικχ'));
+
+const getScript = (char: string): string | null => {
+  if (!/\p{L}/u.test(char)) return null;
+  const match = SCRIPTS.find(([, pattern]) => pattern.test(char));
+  return match ? match[0] : 'other';
+};
+
+export const isHomographLabel = (label: string): boolean => {
+  const letters = Array.from(label).filter(char => getScript(char) !== null);
+  const scripts = new Set(letters.map(getScript));
+
+  // Latin mixed with CJK is common in legitimate Japanese and Chinese domains
+  if (scripts.has('cjk')) scripts.delete('latin');
+  if (scripts.size > 1) return true;
+
+  return letters.length > 0 &&
+    !scripts.has('latin') &&
+    letters.every(char => LATIN_LOOKALIKES.has(char.toLowerCase()));
+};
+
+const getPunycodeLabels = (hostname: string): string[] =>
+  hostname.split('.').filter(label => label.startsWith('xn--'));
+
+export const isIpLiteral = (hostname: string): boolean =>
+  hostname.startsWith('[') || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+
+// URL parsing already lower-cases hosts and converts them to punycode, so patterns get the same treatment
+const toAsciiHost = (host: string): string => {
+  try {
+    return new URL(`http://${host}`).host;
+  } catch {
+    return host.toLowerCase();
+  }
+};
+
+// "example.com." is the same host as "example.com", with or without a port after it
+const stripTrailingDot = (host: string): string => host.replace(/\.(?=(:\d+)?$)/, '');
+
+// "example.com" matches only that host; "*.example.com" matches any of its subdomains
+export const matchesDomain = (hostname: string, pattern: string): boolean => {
+  const host = stripTrailingDot(hostname);
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(`.${toAsciiHost(pattern.slice(2))}`);
+  }
+  return host === toAsciiHost(pattern);
+};
+
+// Self hosts may include a port; without one they match the host on any port
+const getSelfHosts = (rules: UrlRulesConfig): string[] => [
+  ...rules.selfHosts,
+  ...(typeof window !== 'undefined' ? [window.location.host] : [])
+];
+
+const URL_RULES: UrlRule[] = [
+  (url) => url.username || url.password
+    ? { code: 'embedded-credentials', message: 'URL must not contain a username or password' }
+    : null,
+
+  (url, rules) => !rules.allowIpHosts && isIpLiteral(url.hostname)
+    ? { code: 'ip-literal', message: 'URL must use a domain name, not an IP address' }
+    : null,
+
+  (url, rules) => getSelfHosts(rules).some(self => {
+    const selfHost = stripTrailingDot(toAsciiHost(self));
+    return selfHost.includes(':')
+      ? stripTrailingDot(url.host) === selfHost
+      : stripTrailingDot(url.hostname) === selfHost;
+  })
+    ? { code: 'self-referential', message: 'URL cannot point back to this shortener' }
+    : null,
+
+  (url, rules) => rules.blockedDomains.some(pattern => matchesDomain(url.hostname, pattern))
+    ? { code: 'domain-blocked', message: 'Links to this domain are not allowed' }
+    : null,
+
+  (url, rules) => rules.allowedDomains.length > 0 &&
+    !rules.allowedDomains.some(pattern => matchesDomain(url.hostname, pattern))
+    ? { code: 'domain-not-allowed', message: 'Links are only allowed to approved domains' }
+    : null,
+
+  (url, rules) => !rules.allowPunycode && getPunycodeLabels(url.hostname).length > 0
+    ? { code: 'punycode', message: 'Internationalized domain names are not allowed' }
+    : null,
+
+  (url) => getPunycodeLabels(url.hostname).some(label => {
+    const decoded = decodePunycode(label.slice(4));
+    return decoded === null || isHomographLabel(decoded);
+  })
+    ? { code: 'homograph', message: 'Domain name mixes look-alike characters from different alphabets' }
+    : null
+];
+
+export const evaluateUrlRules = (url: URL, rules: UrlRulesConfig = getPolicy().urlRules): UrlRejection[] =>
+  URL_RULES
+    .map(rule => rule(url, rules))
+    .filter((rejection): rejection is UrlRejection => rejection !== null);
@@ -0,0 +1,63 @@
+import { DeviceType, UserAgentInfo } from '../types';
+
+type Rule = [RegExp, string];
+
+const BOT_PATTERN = /bot\b|bot\/|crawl|spider|slurp|facebookexternalhit|embedly|preview|headless|lighthouse|curl\/|wget\/|python-requests|axios\/|node-fetch|go-http-client|okhttp|java\//i;
+
+// Order matters: Chromium-based browsers also claim to be Chrome and Safari
+const BROWSER_RULES: Rule[] = [
+  [/edg(e|a|ios)?\//i, 'Edge'],
+  [/opr\/|opera/i, 'Opera'],
+  [/samsungbrowser/i, 'Samsung Internet'],
+  [/ucbrowser/i, 'UC Browser'],
+  [/firefox|fxios/i, 'Firefox'],
+  [/chrome|crios|chromium/i, 'Chrome'],
+  [/msie|trident\//i, 'Internet Explorer'],
+  [/safari/i, 'Safari']
+];
+
+const OS_RULES: Rule[] = [
+  [/windows phone/i, 'Windows Phone'],
+  [/windows nt|win64|win32/i, 'Windows'],
+  [/iphone|ipad|ipod/i, 'iOS'],
+  [/android/i, 'Android'],
+  [/cros/i, 'Chrome OS'],
+  [/mac os x|macintosh/i, 'macOS'],
+  [/linux/i, 'Linux']
+];
+
+const TABLET_PATTERN = /ipad|tablet|kindle|silk|playbook|android(?!.*mobile)/i;
+const MOBILE_PATTERN = /mobi|iphone|ipod|windows phone|android.*mobile/i;
+
+const matchRule = (userAgent: string, rules: Rule[]): string => {
+  const rule = rules.find(([pattern]) => pattern.test(userAgent));
+  return rule ? rule[1] : 'Other';
+};
+
+const getDeviceType = (userAgent: string): DeviceType => {
+  if (TABLET_PATTERN.test(userAgent)) return 'tablet';
+  if (MOBILE_PATTERN.test(userAgent)) return 'mobile';
+  return 'desktop';
+};
+
+const cache = new Map<string, UserAgentInfo>();
+
+export const parseUserAgent = (userAgent: string): UserAgentInfo => {
+  const cached = cache.get(userAgent);
+  if (cached) return cached;
+
+  const info: UserAgentInfo = userAgent.trim()
+    ? {
+        browser: matchRule(userAgent, BROWSER_RULES),
+        os: matchRule(userAgent, OS_RULES),
+        deviceType: getDeviceType(userAgent),
+        isBot: BOT_PATTERN.test(userAgent)
+      }
+    : { browser: 'Unknown', os: 'Unknown', deviceType: 'desktop', isBot: false };
+
+  // Clicks repeat the same handful of user agents, so keep the parse results around
+  if (cache.size < 500) {
+    cache.set(userAgent, info);
+  }
+  return info;
+};
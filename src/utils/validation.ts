@@ -1,18 +1,24 @@
-import { ValidationResult } from '../types';
+import { LinkUpdate, RedirectOptions, RedirectRule, SplitVariant, UrlRejection, UrlValidationResult, ValidationResult } from '../types';
 import { logger } from './logger';
+import { formatMinutes, getPolicy, isReservedWord } from './policy';
+import { MAX_TAGS, MAX_TAG_LENGTH } from './tags';
+import { evaluateUrlRules } from './urlRules';
+import { isValidTimeZone, MAX_REDIRECT_RULES, RULE_DEVICE_TYPES } from './redirectRules';
+import { getVariantLabel, MAX_SPLIT_VARIANTS } from './splitVariants';
+import { MAX_COUNTDOWN_SECONDS, REDIRECT_MODES } from './redirectOptions';
 
-export const validateUrl = (url: string): ValidationResult => {
-  const errors: string[] = [];
+export const validateUrl = (url: string): UrlValidationResult => {
+  const reasons: UrlRejection[] = [];
 
   if (!url.trim()) {
-    errors.push('URL is required');
+    reasons.push({ code: 'required', message: 'URL is required' });
   } else {
     try {
       const urlObj = new URL(url);
       
       // Check for valid protocols
       if (!['http:', 'https:'].includes(urlObj.protocol)) {
-        errors.push('URL must use HTTP or HTTPS protocol');
+        reasons.push({ code: 'unsupported-protocol', message: 'URL must use HTTP or HTTPS protocol' });
       }
 
       // Check for malicious patterns
@@ -24,24 +30,28 @@ export const validateUrl = (url: string): ValidationResult => {
       ];
 
       if (maliciousPatterns.some(pattern => pattern.test(url))) {
-        errors.push('URL contains potentially malicious content');
+        reasons.push({ code: 'malicious-content', message: 'URL contains potentially malicious content' });
         logger.warn('MALICIOUS_URL_ATTEMPT', { url, timestamp: new Date() });
       }
 
+      reasons.push(...evaluateUrlRules(urlObj));
+
     } catch {
-      errors.push('Invalid URL format');
+      reasons.push({ code: 'invalid-format', message: 'Invalid URL format' });
     }
   }
 
   const result = {
-    isValid: errors.length === 0,
-    errors
+    isValid: reasons.length === 0,
+    errors: reasons.map(reason => reason.message),
+    reasons
   };
 
-  logger.info('URL_VALIDATION', { 
+  logger.debug('URL_VALIDATION', { 
     url: url.substring(0, 100), 
     isValid: result.isValid, 
-    errorCount: errors.length 
+    errorCount: reasons.length,
+    reasonCodes: reasons.map(reason => reason.code)
   });
 
   return result;
@@ -59,9 +69,7 @@ export const validateShortCode = (shortCode: string): ValidationResult => {
       errors.push('Short code can only contain letters, numbers, hyphens, and underscores');
     }
 
-    // Reserved words check
-    const reservedWords = ['admin', 'api', 'www', 'app', 'stats', 'analytics'];
-    if (reservedWords.includes(shortCode.toLowerCase())) {
+    if (isReservedWord(shortCode)) {
       errors.push('Short code cannot use reserved words');
     }
   }
@@ -71,7 +79,7 @@ export const validateShortCode = (shortCode: string): ValidationResult => {
     errors
   };
 
-  logger.info('SHORTCODE_VALIDATION', { 
+  logger.debug('SHORTCODE_VALIDATION', { 
     shortCode, 
     isValid: result.isValid, 
     errorCount: errors.length 
@@ -82,13 +90,248 @@ export const validateShortCode = (shortCode: string): ValidationResult => {
 
 export const validateExpiryMinutes = (minutes: number): ValidationResult => {
   const errors: string[] = [];
+  const { minExpiryMinutes, maxExpiryMinutes } = getPolicy();
+
+  if (!Number.isFinite(minutes)) {
+    errors.push('Expiry time must be a number');
+  }
+
+  if (minutes < minExpiryMinutes) {
+    errors.push(`Expiry time must be at least ${formatMinutes(minExpiryMinutes)}`);
+  }
+
+  if (minutes > maxExpiryMinutes) {
+    errors.push(`Expiry time cannot exceed ${formatMinutes(maxExpiryMinutes)}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+export const validateMaxClicks = (maxClicks: number): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(maxClicks) || maxClicks < 1) {
+    errors.push('Click limit must be a whole number of at least 1');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+// Scheduling shares the expiry horizon so a link can't be parked indefinitely
+export const validateStartsAt = (startsAt: Date): ValidationResult => {
+  const errors: string[] = [];
+  const { maxExpiryMinutes } = getPolicy();
+  const minutesFromNow = (startsAt.getTime() - Date.now()) / 60000;
+
+  if (Number.isNaN(minutesFromNow)) {
+    errors.push('Go-live time must be a valid date');
+  } else if (minutesFromNow <= 0) {
+    errors.push('Go-live time must be in the future');
+  } else if (minutesFromNow > maxExpiryMinutes) {
+    errors.push(`Go-live time cannot be more than ${formatMinutes(maxExpiryMinutes)} from now`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+export const validatePrelaunchUrl = (url: string): UrlValidationResult => {
+  const urlValidation = validateUrl(url);
+  return {
+    ...urlValidation,
+    errors: urlValidation.errors.map(error => `Pre-launch URL: ${error}`)
+  };
+};
+
+export const validateCredentials = (username: string, password: string): ValidationResult => {
+  const errors: string[] = [];
+
+  if (!/^[a-zA-Z0-9_.-]{3,32}$/.test(username)) {
+    errors.push('Username must be 3-32 letters, numbers, dots, hyphens or underscores');
+  }
+
+  if (password.length < 8) {
+    errors.push('Password must be at least 8 characters');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+export const validateLinkUpdate = (update: LinkUpdate): UrlValidationResult => {
+  const errors: string[] = [];
+  const reasons: UrlRejection[] = [];
+
+  if (update.originalUrl !== undefined) {
+    const urlValidation = validateUrl(update.originalUrl);
+    errors.push(...urlValidation.errors);
+    reasons.push(...urlValidation.reasons);
+  }
+
+  if (update.shortCode !== undefined) {
+    errors.push(...(update.shortCode.trim()
+      ? validateShortCode(update.shortCode).errors
+      : ['Short code is required']));
+  }
+
+  if (update.tags !== undefined) {
+    errors.push(...validateTags(update.tags).errors);
+  }
+
+  if (update.redirectRules !== undefined) {
+    const rulesValidation = validateRedirectRules(update.redirectRules);
+    errors.push(...rulesValidation.errors);
+    reasons.push(...rulesValidation.reasons);
+  }
+
+  if (update.splitVariants !== undefined) {
+    const variantsValidation = validateSplitVariants(update.splitVariants);
+    errors.push(...variantsValidation.errors);
+    reasons.push(...variantsValidation.reasons);
+  }
+
+  if (update.redirectOptions) {
+    errors.push(...validateRedirectOptions(update.redirectOptions).errors);
+  }
+
+  if (update.startsAt) {
+    errors.push(...validateStartsAt(update.startsAt).errors);
+  }
+
+  if (update.prelaunchUrl) {
+    const prelaunchValidation = validatePrelaunchUrl(update.prelaunchUrl);
+    errors.push(...prelaunchValidation.errors);
+    reasons.push(...prelaunchValidation.reasons);
+  }
+
+  if (update.expiresAt !== undefined) {
+    const minutesFromNow = (update.expiresAt.getTime() - Date.now()) / 60000;
+    if (Number.isNaN(minutesFromNow)) {
+      errors.push('Expiry time must be a valid date');
+    } else if (minutesFromNow <= 0) {
+      errors.push('Expiry time must be in the future');
+    } else if (minutesFromNow > getPolicy().maxExpiryMinutes) {
+      errors.push(`Expiry time cannot exceed ${formatMinutes(getPolicy().maxExpiryMinutes)} from now`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    reasons
+  };
+};
+
+export const validateTags = (tags: string[]): ValidationResult => {
+  const errors: string[] = [];
+
+  if (tags.length > MAX_TAGS) {
+    errors.push(`A link can have at most ${MAX_TAGS} tags`);
+  }
+
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH || !/^[a-z0-9][a-z0-9_-]*$/.test(tag))) {
+    errors.push(`Tags must be up to ${MAX_TAG_LENGTH} letters, numbers, hyphens or underscores`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+const isHour = (value: number | undefined, max: number): boolean =>
+  value === undefined || (Number.isInteger(value) && value >= 0 && value <= max);
+
+// Rule destinations go through the same checks as a link's own destination
+export const validateRedirectRules = (rules: RedirectRule[]): UrlValidationResult => {
+  const errors: string[] = [];
+  const reasons: UrlRejection[] = [];
+
+  if (rules.length > MAX_REDIRECT_RULES) {
+    errors.push(`A link can have at most ${MAX_REDIRECT_RULES} redirect rules`);
+  }
+
+  rules.forEach((rule, index) => {
+    const name = rule.label || `Rule ${index + 1}`;
+    const urlValidation = validateUrl(rule.destination);
+    errors.push(...urlValidation.errors.map(error => `${name}: ${error}`));
+    reasons.push(...urlValidation.reasons);
+
+    if (rule.devices?.some(device => !RULE_DEVICE_TYPES.includes(device))) {
+      errors.push(`${name}: devices must be desktop, mobile or tablet`);
+    }
+    if (rule.days?.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      errors.push(`${name}: days must be between 0 (Sunday) and 6 (Saturday)`);
+    }
+    if (!isHour(rule.startHour, 23) || !isHour(rule.endHour, 24)) {
+      errors.push(`${name}: hours must be whole numbers from 0 to 24`);
+    }
+    if (rule.timeZone && !isValidTimeZone(rule.timeZone)) {
+      errors.push(`${name}: unknown time zone ${rule.timeZone}`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    reasons
+  };
+};
+
+// An empty list turns splitting off; otherwise it takes at least two variants to split between
+export const validateSplitVariants = (variants: SplitVariant[]): UrlValidationResult => {
+  const errors: string[] = [];
+  const reasons: UrlRejection[] = [];
+
+  if (variants.length === 1) {
+    errors.push('A split needs at least two variants');
+  }
+  if (variants.length > MAX_SPLIT_VARIANTS) {
+    errors.push(`A link can have at most ${MAX_SPLIT_VARIANTS} split variants`);
+  }
+
+  variants.forEach((variant, index) => {
+    const name = getVariantLabel(variant, index);
+    const urlValidation = validateUrl(variant.destination);
+    errors.push(...urlValidation.errors.map(error => `${name}: ${error}`));
+    reasons.push(...urlValidation.reasons);
+
+    if (!Number.isInteger(variant.weight) || variant.weight < 0 || variant.weight > 1000) {
+      errors.push(`${name}: weight must be a whole number from 0 to 1000`);
+    }
+  });
+
+  if (variants.length > 1 && variants.every(variant => variant.weight === 0)) {
+    errors.push('At least one variant needs a weight above 0');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    reasons
+  };
+};
+
+export const validateRedirectOptions = (options: RedirectOptions): ValidationResult => {
+  const errors: string[] = [];
 
-  if (minutes < 1) {
-    errors.push('Expiry time must be at least 1 minute');
+  if (!REDIRECT_MODES.includes(options.mode)) {
+    errors.push('Redirect mode must be instant, timed or click-through');
   }
 
-  if (minutes > 43200) { // 30 days max
-    errors.push('Expiry time cannot exceed 30 days');
+  if (options.mode === 'timed' &&
+    (!Number.isInteger(options.countdownSeconds) || options.countdownSeconds < 1 || options.countdownSeconds > MAX_COUNTDOWN_SECONDS)) {
+    errors.push(`Countdown must be a whole number from 1 to ${MAX_COUNTDOWN_SECONDS} seconds`);
   }
 
   return {